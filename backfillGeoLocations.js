@@ -0,0 +1,37 @@
+// backfillGeoLocations.js
+// Renseigne `geoLocation` (GeoJSON) pour les documents créés avant la recherche par proximité
+require('dotenv').config();
+const mongoose = require('mongoose');
+
+const COLLECTIONS = ['establishments', 'housings'];
+
+async function backfillGeoLocations() {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('✅ Connecté à MongoDB');
+
+    for (const name of COLLECTIONS) {
+      const collection = mongoose.connection.db.collection(name);
+
+      const result = await collection.updateMany(
+        {
+          'coordinates.lat': { $type: 'number', $gte: -90, $lte: 90 },
+          'coordinates.lng': { $type: 'number', $gte: -180, $lte: 180 },
+          geoLocation: { $exists: false }
+        },
+        [{ $set: { geoLocation: { type: 'Point', coordinates: ['$coordinates.lng', '$coordinates.lat'] } } }]
+      );
+
+      await collection.createIndex({ geoLocation: '2dsphere' });
+
+      console.log(`📍 ${name}: ${result.modifiedCount} document(s) mis à jour`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Erreur:', error.message);
+    process.exit(1);
+  }
+}
+
+backfillGeoLocations();
\ No newline at end of file
@@ -0,0 +1,294 @@
+// src/controllers/admin.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { User, Establishment, AuditLog } from '../models';
+import { revokeAllSessions } from '../services/token.service';
+import { recordAudit } from '../services/audit.service';
+import { deleteUserData } from '../services/account.service';
+
+const VALID_ROLES = ['student', 'admin', 'landlord', 'establishment_staff'];
+
+// Vérifie l'ID cible et empêche un admin d'agir sur son propre compte
+const validateTarget = (req: Request, res: Response): boolean => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: 'ID utilisateur invalide'
+    });
+    return false;
+  }
+
+  if (id === (req as any).user.id) {
+    res.status(400).json({
+      success: false,
+      message: 'Vous ne pouvez pas effectuer cette action sur votre propre compte'
+    });
+    return false;
+  }
+
+  return true;
+};
+
+const userNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Utilisateur non trouvé'
+  });
+
+// @desc    Modifier le rôle d'un utilisateur
+// @route   PATCH /api/users/:id/role
+// @access  Private/Admin
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    if (!validateTarget(req, res)) return;
+
+    const { role, establishment } = req.body;
+
+    if (!VALID_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Rôle invalide. Rôles valides: ${VALID_ROLES.join(', ')}`
+      });
+    }
+
+    // Le personnel d'établissement doit être rattaché à un établissement existant
+    if (role === 'establishment_staff') {
+      if (!establishment || !mongoose.Types.ObjectId.isValid(establishment) ||
+        !(await Establishment.exists({ _id: establishment }))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Un établissement valide est requis pour le rôle establishment_staff'
+        });
+      }
+    }
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return userNotFoundResponse(res);
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    user.establishment = role === 'establishment_staff' ? establishment : undefined;
+    await user.save();
+
+    await recordAudit(req, 'user.role_changed', 'User', String(user._id), {
+      from: previousRole,
+      to: role,
+      establishment: user.establishment
+    });
+
+    res.json({
+      success: true,
+      message: `Rôle mis à jour: ${previousRole} → ${role}`,
+      user: await User.findById(user._id).select('-password')
+    });
+
+  } catch (error) {
+    console.error('Erreur updateUserRole:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la modification du rôle'
+    });
+  }
+};
+
+// @desc    Suspendre un compte utilisateur
+// @route   PATCH /api/users/:id/suspend
+// @access  Private/Admin
+export const suspendUser = async (req: Request, res: Response) => {
+  try {
+    if (!validateTarget(req, res)) return;
+
+    const { reason } = req.body;
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { isSuspended: true, suspendedAt: new Date(), suspensionReason: reason },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      return userNotFoundResponse(res);
+    }
+
+    // Fermer immédiatement toutes les sessions du compte suspendu
+    await revokeAllSessions(String(user._id));
+
+    await recordAudit(req, 'user.suspended', 'User', String(user._id), { reason });
+
+    res.json({
+      success: true,
+      message: 'Compte suspendu',
+      user
+    });
+
+  } catch (error) {
+    console.error('Erreur suspendUser:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la suspension'
+    });
+  }
+};
+
+// @desc    Réactiver un compte suspendu
+// @route   PATCH /api/users/:id/reactivate
+// @access  Private/Admin
+export const reactivateUser = async (req: Request, res: Response) => {
+  try {
+    if (!validateTarget(req, res)) return;
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { isSuspended: false, $unset: { suspendedAt: 1, suspensionReason: 1 } },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      return userNotFoundResponse(res);
+    }
+
+    await recordAudit(req, 'user.reactivated', 'User', String(user._id));
+
+    res.json({
+      success: true,
+      message: 'Compte réactivé',
+      user
+    });
+
+  } catch (error) {
+    console.error('Erreur reactivateUser:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la réactivation'
+    });
+  }
+};
+
+// @desc    Forcer la vérification de l'email d'un utilisateur
+// @route   PATCH /api/users/:id/verify
+// @access  Private/Admin
+export const forceVerifyUser = async (req: Request, res: Response) => {
+  try {
+    if (!validateTarget(req, res)) return;
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { isVerified: true, $unset: { verificationTokenHash: 1, verificationTokenExpires: 1 } },
+      { new: true }
+    ).select('-password');
+
+    if (!user) {
+      return userNotFoundResponse(res);
+    }
+
+    await recordAudit(req, 'user.force_verified', 'User', String(user._id));
+
+    res.json({
+      success: true,
+      message: 'Compte marqué comme vérifié',
+      user
+    });
+
+  } catch (error) {
+    console.error('Erreur forceVerifyUser:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la vérification'
+    });
+  }
+};
+
+// @desc    Supprimer un utilisateur et les données qui lui appartiennent
+// @route   DELETE /api/users/:id
+// @access  Private/Admin
+export const deleteUser = async (req: Request, res: Response) => {
+  try {
+    if (!validateTarget(req, res)) return;
+
+    const user = await User.findByIdAndDelete(req.params.id);
+
+    if (!user) {
+      return userNotFoundResponse(res);
+    }
+
+    // Avis, annonces, candidatures, conversations, listes... du compte
+    await deleteUserData(user._id as mongoose.Types.ObjectId);
+
+    await recordAudit(req, 'user.deleted', 'User', String(user._id), {
+      email: user.email,
+      role: user.role
+    });
+
+    res.json({
+      success: true,
+      message: 'Utilisateur supprimé avec succès',
+      data: {
+        id: user._id,
+        email: user.email
+      }
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteUser:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la suppression'
+    });
+  }
+};
+
+// @desc    Consulter le journal des actions d'administration
+// @route   GET /api/users/audit-logs
+// @access  Private/Admin
+export const getAuditLogs = async (req: Request, res: Response) => {
+  try {
+    const { action, actor, targetId, page = 1, limit = 50 } = req.query;
+
+    const invalidId = [actor, targetId].find(id => id && !mongoose.Types.ObjectId.isValid(String(id)));
+    if (invalidId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Les filtres actor et targetId doivent être des ID valides'
+      });
+    }
+
+    const query: any = {};
+    if (action) query.action = String(action);
+    if (actor) query.actor = String(actor);
+    if (targetId) query.targetId = String(targetId);
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit as string) || 50));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(query)
+        .populate('actor', 'email firstName lastName')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      AuditLog.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: logs.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: logs
+    });
+
+  } catch (error) {
+    console.error('Erreur getAuditLogs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération du journal'
+    });
+  }
+};
\ No newline at end of file
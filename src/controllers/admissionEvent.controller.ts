@@ -0,0 +1,515 @@
+// src/controllers/admissionEvent.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AdmissionEvent, Establishment, Program, User } from '../models';
+import { ADMISSION_EVENT_TYPES, IAdmissionEvent } from '../models/AdmissionEvent';
+import { sendICalendar, CalendarEvent } from '../services/calendar.service';
+import { generateRandomToken, hashToken } from '../services/token.service';
+import { accentInsensitivePattern } from '../utils/text';
+
+// Champs modifiables d'un événement
+const EVENT_FIELDS = [
+  'program', 'type', 'title', 'description', 'startDate', 'endDate', 'allDay', 'location', 'url', 'isCancelled'
+];
+
+const TYPE_LABELS: Record<typeof ADMISSION_EVENT_TYPES[number], string> = {
+  application_window: 'Candidatures',
+  entrance_exam: 'Concours d\'entrée',
+  open_day: 'Journée portes ouvertes',
+  results: 'Résultats'
+};
+
+// Événements passés conservés dans les flux iCalendar (pour l'historique des abonnés)
+const CALENDAR_HISTORY_DAYS = 90;
+const MAX_CALENDAR_EVENTS = 500;
+
+const pickEventFields = (body: any) => {
+  const data: any = {};
+  EVENT_FIELDS.forEach(field => {
+    if (body[field] !== undefined) data[field] = body[field];
+  });
+  return data;
+};
+
+// Filtres communs aux listes d'événements
+// Retourne null si un paramètre est invalide
+const buildEventQuery = (params: any) => {
+  const { type, from, to, includePast, includeCancelled } = params;
+  const query: any = {};
+
+  if (type) {
+    const types = String(type).split(',');
+    if (types.some(value => !ADMISSION_EVENT_TYPES.includes(value as any))) return null;
+    query.type = { $in: types };
+  }
+
+  // Un événement est "à venir" tant que sa date de fin n'est pas passée
+  const fromDate = from ? new Date(String(from)) : includePast === 'true' ? undefined : new Date();
+  const toDate = to ? new Date(String(to)) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) return null;
+
+  if (fromDate) query.endDate = { $gte: fromDate };
+  if (toDate) query.startDate = { $lte: toDate };
+  if (includeCancelled !== 'true') query.isCancelled = false;
+
+  return query;
+};
+
+const invalidQueryResponse = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    message: `Paramètres invalides. Types valides: ${ADMISSION_EVENT_TYPES.join(', ')} ; dates au format ISO (from, to)`
+  });
+
+const eventNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Événement non trouvé'
+  });
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError' && error.name !== 'CastError') return null;
+  const messages = error.errors
+    ? Object.values(error.errors).map((err: any) => err.message)
+    : [error.message];
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+// La formation éventuelle doit appartenir à l'établissement de l'événement
+const checkEventProgram = async (programId: any, establishmentId: any) => {
+  if (!programId) return true;
+  if (!mongoose.Types.ObjectId.isValid(programId)) return false;
+  return !!(await Program.exists({ _id: programId, establishment: establishmentId }));
+};
+
+const toCalendarEvent = (event: IAdmissionEvent, establishmentName?: string): CalendarEvent => {
+  const label = TYPE_LABELS[event.type];
+  const title = event.title.includes(label) ? event.title : `${label} : ${event.title}`;
+
+  return {
+    uid: String(event._id),
+    title: establishmentName ? `[${establishmentName}] ${title}` : title,
+    description: event.description,
+    location: event.location,
+    url: event.url,
+    start: event.startDate,
+    end: event.endDate,
+    allDay: event.allDay,
+    cancelled: event.isCancelled,
+    updatedAt: (event as any).updatedAt
+  };
+};
+
+const calendarWindowStart = () => new Date(Date.now() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+// Adresse publique du flux personnel (https:// et webcal:// pour l'abonnement direct)
+const buildSubscriptionUrls = (req: Request, token: string) => {
+  const url = `${req.protocol}://${req.get('host')}/api/admission-events/calendar/${token}.ics`;
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:')
+  };
+};
+
+// @desc    Lister les événements d'admission d'un établissement
+//          ex: ?type=application_window,entrance_exam&includePast=true
+// @route   GET /api/establishments/:id/events
+// @access  Public
+export const getEstablishmentEvents = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID d\'établissement invalide'
+      });
+    }
+
+    const query = buildEventQuery(req.query);
+    if (!query) {
+      return invalidQueryResponse(res);
+    }
+    query.establishment = req.params.id;
+
+    const events = await AdmissionEvent.find(query)
+      .populate('program', 'name degree')
+      .sort({ startDate: 1 });
+
+    res.json({
+      success: true,
+      count: events.length,
+      data: events
+    });
+
+  } catch (error) {
+    console.error('Erreur getEstablishmentEvents:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des événements'
+    });
+  }
+};
+
+// @desc    Ajouter un événement au calendrier d'un établissement
+// @route   POST /api/establishments/:id/events
+// @access  Private/Admin ou personnel de l'établissement
+export const createEstablishmentEvent = async (req: Request, res: Response) => {
+  try {
+    const establishment = await Establishment.findById(req.params.id).select('_id');
+    if (!establishment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+
+    const requiredFields = ['type', 'title', 'startDate'];
+    const missingFields = requiredFields.filter(field => !req.body[field]);
+
+    if (missingFields.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Champs manquants: ${missingFields.join(', ')}`
+      });
+    }
+
+    if (!(await checkEventProgram(req.body.program, establishment._id))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cette formation n\'appartient pas à l\'établissement'
+      });
+    }
+
+    const event = await AdmissionEvent.create({
+      ...pickEventFields(req.body),
+      establishment: establishment._id,
+      createdBy: (req as any).user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: event,
+      message: 'Événement créé avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createEstablishmentEvent:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la création de l\'événement'
+    });
+  }
+};
+
+// @desc    Mettre à jour un événement (ou l'annuler avec isCancelled)
+// @route   PUT /api/establishments/:id/events/:eventId
+// @access  Private/Admin ou personnel de l'établissement
+export const updateEstablishmentEvent = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.eventId)) {
+      return eventNotFoundResponse(res);
+    }
+
+    const event = await AdmissionEvent.findOne({ _id: req.params.eventId, establishment: req.params.id });
+    if (!event) {
+      return eventNotFoundResponse(res);
+    }
+
+    if (!(await checkEventProgram(req.body.program, event.establishment))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cette formation n\'appartient pas à l\'établissement'
+      });
+    }
+
+    const data = pickEventFields(req.body);
+    // Un événement ponctuel déplacé reste ponctuel
+    if (data.startDate && data.endDate === undefined && event.endDate.getTime() === event.startDate.getTime()) {
+      data.endDate = data.startDate;
+    }
+
+    event.set(data);
+    await event.save();
+
+    res.json({
+      success: true,
+      data: event,
+      message: 'Événement mis à jour avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateEstablishmentEvent:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour de l\'événement'
+    });
+  }
+};
+
+// @desc    Supprimer un événement
+// @route   DELETE /api/establishments/:id/events/:eventId
+// @access  Private/Admin ou personnel de l'établissement
+export const deleteEstablishmentEvent = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.eventId)) {
+      return eventNotFoundResponse(res);
+    }
+
+    const event = await AdmissionEvent.findOneAndDelete({ _id: req.params.eventId, establishment: req.params.id });
+    if (!event) {
+      return eventNotFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Événement supprimé avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteEstablishmentEvent:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Flux iCalendar d'un établissement
+// @route   GET /api/establishments/:id/calendar.ics
+// @access  Public
+export const getEstablishmentCalendar = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID d\'établissement invalide'
+      });
+    }
+
+    const establishment = await Establishment.findById(req.params.id).select('name');
+    if (!establishment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+
+    const events = await AdmissionEvent.find({
+      establishment: establishment._id,
+      endDate: { $gte: calendarWindowStart() }
+    })
+      .sort({ startDate: 1 })
+      .limit(MAX_CALENDAR_EVENTS);
+
+    sendICalendar(
+      res,
+      `admissions-${establishment._id}`,
+      `Admissions - ${establishment.name}`,
+      events.map(event => toCalendarEvent(event))
+    );
+
+  } catch (error) {
+    console.error('Erreur getEstablishmentCalendar:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la génération du calendrier'
+    });
+  }
+};
+
+// @desc    Calendrier des admissions, tous établissements confondus
+//          ex: ?type=open_day&location=Dakar&from=2025-01-01&to=2025-06-30
+// @route   GET /api/admission-events
+// @access  Public
+export const getAdmissionEvents = async (req: Request, res: Response) => {
+  try {
+    const { location, page = 1, limit = 20 } = req.query;
+
+    const query = buildEventQuery(req.query);
+    if (!query) {
+      return invalidQueryResponse(res);
+    }
+
+    if (location) {
+      const establishmentIds = await Establishment.find({
+        location: { $regex: accentInsensitivePattern(String(location)), $options: 'i' }
+      }).distinct('_id');
+      query.establishment = { $in: establishmentIds };
+    }
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [events, total] = await Promise.all([
+      AdmissionEvent.find(query)
+        .populate('establishment', 'name location type')
+        .populate('program', 'name degree')
+        .sort({ startDate: 1 })
+        .skip(skip)
+        .limit(limitNum),
+      AdmissionEvent.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: events.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: events
+    });
+
+  } catch (error) {
+    console.error('Erreur getAdmissionEvents:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des événements'
+    });
+  }
+};
+
+// @desc    Prochains événements des établissements favoris
+//          ex: ?days=60&type=application_window
+// @route   GET /api/admission-events/favorites
+// @access  Private
+export const getFavoriteUpcomingEvents = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById((req as any).user.id).select('favorites.establishments');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Utilisateur non trouvé'
+      });
+    }
+
+    const days = Math.min(365, Math.max(1, parseInt(req.query.days as string) || 60));
+    const query = buildEventQuery({
+      ...req.query,
+      from: undefined,
+      to: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString(),
+      includePast: undefined
+    });
+    if (!query) {
+      return invalidQueryResponse(res);
+    }
+    query.establishment = { $in: user.favorites.establishments };
+
+    const events = await AdmissionEvent.find(query)
+      .populate('establishment', 'name location')
+      .populate('program', 'name degree')
+      .sort({ startDate: 1 })
+      .limit(100);
+
+    res.json({
+      success: true,
+      count: events.length,
+      days,
+      data: events
+    });
+
+  } catch (error) {
+    console.error('Erreur getFavoriteUpcomingEvents:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Générer (ou régénérer) l'adresse d'abonnement au calendrier personnel
+//          L'ancienne adresse cesse de fonctionner
+// @route   POST /api/admission-events/calendar-subscription
+// @access  Private
+export const createCalendarSubscription = async (req: Request, res: Response) => {
+  try {
+    const token = generateRandomToken(24);
+
+    await User.updateOne(
+      { _id: (req as any).user.id },
+      { calendarTokenHash: hashToken(token) }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: buildSubscriptionUrls(req, token),
+      message: 'Adresse d\'abonnement générée. Conservez-la : elle ne sera plus affichée.'
+    });
+
+  } catch (error) {
+    console.error('Erreur createCalendarSubscription:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Désactiver l'abonnement au calendrier personnel
+// @route   DELETE /api/admission-events/calendar-subscription
+// @access  Private
+export const revokeCalendarSubscription = async (req: Request, res: Response) => {
+  try {
+    await User.updateOne(
+      { _id: (req as any).user.id },
+      { $unset: { calendarTokenHash: 1 } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Abonnement au calendrier désactivé'
+    });
+
+  } catch (error) {
+    console.error('Erreur revokeCalendarSubscription:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Flux iCalendar personnel : événements des établissements favoris
+// @route   GET /api/admission-events/calendar/:token.ics
+// @access  Public (jeton secret)
+export const getUserCalendar = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findOne({ calendarTokenHash: hashToken(req.params.token) })
+      .select('firstName favorites.establishments isSuspended');
+
+    if (!user || user.isSuspended) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendrier introuvable'
+      });
+    }
+
+    const events = await AdmissionEvent.find({
+      establishment: { $in: user.favorites.establishments },
+      endDate: { $gte: calendarWindowStart() }
+    })
+      .populate('establishment', 'name')
+      .sort({ startDate: 1 })
+      .limit(MAX_CALENDAR_EVENTS);
+
+    sendICalendar(
+      res,
+      'mes-admissions',
+      'EtudeSénégal - Mes admissions',
+      events.map(event => toCalendarEvent(event, (event.establishment as any)?.name))
+    );
+
+  } catch (error) {
+    console.error('Erreur getUserCalendar:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la génération du calendrier'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,663 @@
+// src/controllers/application.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AdmissionEvent, Application, Establishment, Program, User } from '../models';
+import { APPLICATION_STATUSES, APPLICATION_TRANSITIONS, ApplicationStatus, IApplication } from '../models/Application';
+import { storeFiles, streamFile, deleteFiles } from '../services/storage.service';
+import { recordAudit } from '../services/audit.service';
+import { sendApplicationStatusEmail } from '../services/mail.service';
+import { applicationTarget, APPLICATION_DOCUMENTS_BUCKET } from '../services/application.service';
+
+const MAX_DOCUMENTS = 10;
+
+// Statuts définitifs : plus aucune modification du dossier
+const FINAL_STATUSES: ApplicationStatus[] = ['accepted', 'rejected'];
+
+// Champs réservés à l'étudiant, retirés des réponses destinées à l'établissement
+const PRIVATE_FIELDS = '-notes -remindersSent';
+
+const applicationNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Candidature non trouvée'
+  });
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError' && error.name !== 'CastError') return null;
+  const messages = error.errors
+    ? Object.values(error.errors).map((err: any) => err.message)
+    : [error.message];
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+// Candidature de l'utilisateur connecté (null si l'ID est invalide ou la candidature d'un autre)
+const findOwnApplication = async (req: Request) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) return null;
+  return Application.findOne({ _id: req.params.id, user: (req as any).user.id });
+};
+
+// Lecture : l'étudiant, un admin, ou le personnel de l'établissement une fois le dossier soumis
+const canViewApplication = async (user: { id: string; role: string }, application: IApplication) => {
+  if (user.role === 'admin' || application.user.toString() === user.id) return true;
+  if (user.role !== 'establishment_staff' || application.status === 'draft') return false;
+
+  const staff = await User.findById(user.id).select('establishment');
+  return staff?.establishment?.toString() === application.establishment.toString();
+};
+
+// Date limite par défaut : fin de la prochaine période de candidature de la formation
+// (ou de l'établissement si la formation n'a pas de période propre)
+const findApplicationDeadline = async (establishmentId: any, programId?: any) => {
+  const event = await AdmissionEvent.findOne({
+    establishment: establishmentId,
+    type: 'application_window',
+    isCancelled: false,
+    endDate: { $gte: new Date() },
+    program: programId ? { $in: [programId, null] } : null
+  })
+    .sort({ program: -1, endDate: 1 })
+    .select('endDate');
+
+  return event?.endDate;
+};
+
+const populateApplication = (query: any) =>
+  query
+    .populate('establishment', 'name location type logo')
+    .populate('program', 'name degree');
+
+// @desc    Créer une candidature (brouillon), avec pièces jointes éventuelles
+//          (multipart/form-data : establishment, program, deadline, notes, documents[])
+// @route   POST /api/applications
+// @access  Private/Student
+export const createApplication = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { establishment: establishmentId, program: programId, deadline, notes } = req.body;
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (!establishmentId || !mongoose.Types.ObjectId.isValid(establishmentId) ||
+      !(await Establishment.exists({ _id: establishmentId }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+
+    if (programId && (!mongoose.Types.ObjectId.isValid(programId) ||
+      !(await Program.exists({ _id: programId, establishment: establishmentId })))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cette formation n\'appartient pas à l\'établissement'
+      });
+    }
+
+    const existing = await Application.exists({ user: userId, establishment: establishmentId, program: programId || null });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà une candidature pour cette formation'
+      });
+    }
+
+    if (files.length > MAX_DOCUMENTS) {
+      return res.status(400).json({
+        success: false,
+        message: `${MAX_DOCUMENTS} documents maximum par candidature`
+      });
+    }
+
+    const application = new Application({
+      user: userId,
+      establishment: establishmentId,
+      program: programId || undefined,
+      deadline: deadline || await findApplicationDeadline(establishmentId, programId),
+      notes,
+      statusHistory: [{ status: 'draft', changedBy: userId }]
+    });
+    await application.validate();
+
+    application.documents = await storeFiles(APPLICATION_DOCUMENTS_BUCKET, files, { user: userId }) as any;
+    try {
+      await application.save();
+    } catch (error) {
+      await deleteFiles(APPLICATION_DOCUMENTS_BUCKET, application.documents.map(doc => doc.fileId));
+      throw error;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: await populateApplication(Application.findById(application._id)),
+      message: 'Candidature créée (brouillon)'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createApplication:', error);
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà une candidature pour cette formation'
+      });
+    }
+    if (validationErrorResponse(res, error)) return;
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la création de la candidature'
+    });
+  }
+};
+
+// @desc    Suivi de ses candidatures, regroupées par statut
+// @route   GET /api/applications/mine
+// @access  Private
+export const getMyApplications = async (req: Request, res: Response) => {
+  try {
+    const applications = await populateApplication(
+      Application.find({ user: (req as any).user.id }).select('-remindersSent')
+    ).sort({ updatedAt: -1 });
+
+    const pipeline = {} as Record<ApplicationStatus, IApplication[]>;
+    APPLICATION_STATUSES.forEach(status => {
+      pipeline[status] = [];
+    });
+    applications.forEach((application: IApplication) => pipeline[application.status].push(application));
+
+    const counts = {} as Record<ApplicationStatus, number>;
+    APPLICATION_STATUSES.forEach(status => {
+      counts[status] = pipeline[status].length;
+    });
+
+    // Brouillons dont la date limite n'est pas passée, la plus proche en premier
+    const now = new Date();
+    const upcomingDeadlines = pipeline.draft
+      .filter(application => application.deadline && application.deadline >= now)
+      .sort((a, b) => (a.deadline as Date).getTime() - (b.deadline as Date).getTime());
+
+    res.json({
+      success: true,
+      count: applications.length,
+      data: {
+        counts,
+        pipeline,
+        upcomingDeadlines
+      }
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyApplications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des candidatures'
+    });
+  }
+};
+
+// @desc    Détail d'une candidature
+// @route   GET /api/applications/:id
+// @access  Private (étudiant, personnel de l'établissement ou admin)
+export const getApplicationById = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return applicationNotFoundResponse(res);
+    }
+
+    const user = (req as any).user;
+    const application = await Application.findById(req.params.id);
+    if (!application || !(await canViewApplication(user, application))) {
+      return applicationNotFoundResponse(res);
+    }
+
+    const isOwner = application.user.toString() === user.id;
+    const data = await populateApplication(Application.findById(application._id).select(isOwner ? '-remindersSent' : PRIVATE_FIELDS))
+      .populate('user', 'email firstName lastName phone nationality studyLevel')
+      .populate('statusHistory.changedBy', 'firstName lastName role');
+
+    res.json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    console.error('Erreur getApplicationById:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Modifier sa candidature (formation et date limite tant qu'elle est en brouillon, notes à tout moment)
+// @route   PUT /api/applications/:id
+// @access  Private (étudiant)
+export const updateApplication = async (req: Request, res: Response) => {
+  try {
+    const application = await findOwnApplication(req);
+    if (!application) {
+      return applicationNotFoundResponse(res);
+    }
+
+    const { program, deadline, notes } = req.body;
+
+    if ((program !== undefined || deadline !== undefined) && application.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        message: 'La formation et la date limite ne sont plus modifiables après la soumission'
+      });
+    }
+
+    if (program !== undefined) {
+      if (program && (!mongoose.Types.ObjectId.isValid(program) ||
+        !(await Program.exists({ _id: program, establishment: application.establishment })))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cette formation n\'appartient pas à l\'établissement'
+        });
+      }
+      application.program = program || undefined;
+    }
+
+    // Nouvelle date limite : les rappels repartent de zéro
+    if (deadline !== undefined) {
+      application.deadline = deadline || undefined;
+      application.remindersSent = [];
+    }
+
+    if (notes !== undefined) application.notes = notes;
+
+    await application.save();
+
+    res.json({
+      success: true,
+      data: await populateApplication(Application.findById(application._id).select('-remindersSent')),
+      message: 'Candidature mise à jour avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateApplication:', error);
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà une candidature pour cette formation'
+      });
+    }
+    if (validationErrorResponse(res, error)) return;
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour de la candidature'
+    });
+  }
+};
+
+// @desc    Supprimer un brouillon de candidature
+// @route   DELETE /api/applications/:id
+// @access  Private (étudiant)
+export const deleteApplication = async (req: Request, res: Response) => {
+  try {
+    const application = await findOwnApplication(req);
+    if (!application) {
+      return applicationNotFoundResponse(res);
+    }
+
+    if (application.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        message: 'Seuls les brouillons peuvent être supprimés'
+      });
+    }
+
+    await application.deleteOne();
+    await deleteFiles(APPLICATION_DOCUMENTS_BUCKET, application.documents.map(doc => doc.fileId));
+
+    res.json({
+      success: true,
+      message: 'Candidature supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteApplication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Soumettre sa candidature à l'établissement
+// @route   PATCH /api/applications/:id/submit
+// @access  Private (étudiant)
+export const submitApplication = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const application = await findOwnApplication(req);
+    if (!application) {
+      return applicationNotFoundResponse(res);
+    }
+
+    if (application.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        message: `Cette candidature a déjà été soumise (${application.status})`
+      });
+    }
+
+    if (application.deadline && application.deadline < new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'La date limite de candidature est dépassée'
+      });
+    }
+
+    application.status = 'submitted';
+    application.submittedAt = new Date();
+    application.statusHistory.push({ status: 'submitted', changedBy: userId, changedAt: new Date() } as any);
+    await application.save();
+
+    res.json({
+      success: true,
+      data: await populateApplication(Application.findById(application._id).select('-remindersSent')),
+      message: 'Candidature soumise avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur submitApplication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la soumission de la candidature'
+    });
+  }
+};
+
+// @desc    Ajouter des pièces jointes (multipart/form-data, champ documents[])
+// @route   POST /api/applications/:id/documents
+// @access  Private (étudiant)
+export const addApplicationDocuments = async (req: Request, res: Response) => {
+  try {
+    const files = (req.files as Express.Multer.File[]) || [];
+    const application = await findOwnApplication(req);
+    if (!application) {
+      return applicationNotFoundResponse(res);
+    }
+
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Aucun document envoyé'
+      });
+    }
+
+    if (FINAL_STATUSES.includes(application.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cette candidature est clôturée'
+      });
+    }
+
+    if (application.documents.length + files.length > MAX_DOCUMENTS) {
+      return res.status(400).json({
+        success: false,
+        message: `${MAX_DOCUMENTS} documents maximum par candidature`
+      });
+    }
+
+    const stored = await storeFiles(APPLICATION_DOCUMENTS_BUCKET, files, {
+      user: (req as any).user.id,
+      application: String(application._id)
+    });
+    application.documents.push(...stored);
+    await application.save();
+
+    res.status(201).json({
+      success: true,
+      data: application.documents,
+      message: `${stored.length} document(s) ajouté(s)`
+    });
+
+  } catch (error) {
+    console.error('Erreur addApplicationDocuments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'envoi des documents'
+    });
+  }
+};
+
+// @desc    Retirer une pièce jointe d'un brouillon
+// @route   DELETE /api/applications/:id/documents/:fileId
+// @access  Private (étudiant)
+export const deleteApplicationDocument = async (req: Request, res: Response) => {
+  try {
+    const application = await findOwnApplication(req);
+    if (!application) {
+      return applicationNotFoundResponse(res);
+    }
+
+    if (application.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        message: 'Les documents d\'une candidature soumise ne peuvent plus être retirés'
+      });
+    }
+
+    const document = application.documents.find(doc => doc.fileId === req.params.fileId);
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé'
+      });
+    }
+
+    application.documents = application.documents.filter(doc => doc.fileId !== document.fileId);
+    await application.save();
+    await deleteFiles(APPLICATION_DOCUMENTS_BUCKET, [document.fileId]);
+
+    res.json({
+      success: true,
+      data: application.documents,
+      message: 'Document supprimé avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteApplicationDocument:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Télécharger une pièce jointe
+// @route   GET /api/applications/:id/documents/:fileId
+// @access  Private (étudiant, personnel de l'établissement ou admin)
+export const getApplicationDocument = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return applicationNotFoundResponse(res);
+    }
+
+    const application = await Application.findById(req.params.id);
+    if (!application || !(await canViewApplication((req as any).user, application))) {
+      return applicationNotFoundResponse(res);
+    }
+
+    if (!application.documents.some(doc => doc.fileId === req.params.fileId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé'
+      });
+    }
+
+    await streamFile(APPLICATION_DOCUMENTS_BUCKET, req.params.fileId, res);
+
+  } catch (error) {
+    console.error('Erreur getApplicationDocument:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Candidatures reçues par un établissement (brouillons exclus)
+//          ex: ?status=submitted,interview&program=...&page=1
+// @route   GET /api/establishments/:id/applications
+// @access  Private/Admin ou personnel de l'établissement
+export const getEstablishmentApplications = async (req: Request, res: Response) => {
+  try {
+    const { status, program, page = 1, limit = 20 } = req.query;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID d\'établissement invalide'
+      });
+    }
+
+    const query: any = { establishment: req.params.id, status: { $ne: 'draft' } };
+
+    if (status) {
+      const statuses = String(status).split(',');
+      if (statuses.some(value => value === 'draft' || !APPLICATION_STATUSES.includes(value as any))) {
+        return res.status(400).json({
+          success: false,
+          message: `Statut invalide. Valeurs possibles: ${APPLICATION_STATUSES.filter(value => value !== 'draft').join(', ')}`
+        });
+      }
+      query.status = { $in: statuses };
+    }
+
+    if (program) {
+      if (!mongoose.Types.ObjectId.isValid(program as string)) {
+        return res.status(400).json({
+          success: false,
+          message: 'ID de formation invalide'
+        });
+      }
+      query.program = program;
+    }
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    // Les dossiers les plus anciens sont traités en premier
+    const [applications, total, byStatus] = await Promise.all([
+      Application.find(query)
+        .select(PRIVATE_FIELDS)
+        .populate('user', 'email firstName lastName phone nationality studyLevel')
+        .populate('program', 'name degree')
+        .sort({ submittedAt: 1 })
+        .skip(skip)
+        .limit(limitNum),
+      Application.countDocuments(query),
+      Application.aggregate([
+        { $match: { establishment: new mongoose.Types.ObjectId(req.params.id), status: { $ne: 'draft' } } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const counts: Record<string, number> = {};
+    APPLICATION_STATUSES.filter(value => value !== 'draft').forEach(value => {
+      counts[value] = byStatus.find(row => row._id === value)?.count || 0;
+    });
+
+    res.json({
+      success: true,
+      count: applications.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      counts,
+      data: applications
+    });
+
+  } catch (error) {
+    console.error('Erreur getEstablishmentApplications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des candidatures'
+    });
+  }
+};
+
+// @desc    Faire avancer une candidature (entretien, admission, refus, liste d'attente)
+//          body: { status, note }
+// @route   PATCH /api/establishments/:id/applications/:applicationId/status
+// @access  Private/Admin ou personnel de l'établissement
+export const updateApplicationStatus = async (req: Request, res: Response) => {
+  try {
+    const { status, note } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(req.params.applicationId)) {
+      return applicationNotFoundResponse(res);
+    }
+
+    const application = await Application.findOne({
+      _id: req.params.applicationId,
+      establishment: req.params.id,
+      status: { $ne: 'draft' }
+    });
+    if (!application) {
+      return applicationNotFoundResponse(res);
+    }
+
+    const allowed = APPLICATION_TRANSITIONS[application.status];
+    if (!allowed.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: allowed.length > 0
+          ? `Transition impossible depuis "${application.status}". Statuts possibles: ${allowed.join(', ')}`
+          : `Cette candidature est clôturée (${application.status})`
+      });
+    }
+
+    const previousStatus = application.status;
+    application.status = status;
+    application.statusHistory.push({ status, changedBy: (req as any).user.id, note, changedAt: new Date() } as any);
+    await application.save();
+
+    await recordAudit(req, 'application.status_changed', 'Application', String(application._id), {
+      from: previousStatus,
+      to: status,
+      note
+    });
+
+    await application.populate([
+      { path: 'user', select: 'email firstName lastName' },
+      { path: 'establishment', select: 'name' },
+      { path: 'program', select: 'name degree' }
+    ]);
+
+    try {
+      await sendApplicationStatusEmail(application.user as any, applicationTarget(application), status, note);
+    } catch (mailError) {
+      console.error('Erreur envoi email de candidature:', mailError);
+    }
+
+    const data: any = application.toObject();
+    delete data.notes;
+    delete data.remindersSent;
+
+    res.json({
+      success: true,
+      data,
+      message: 'Statut de la candidature mis à jour'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateApplicationStatus:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour du statut'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,731 @@
+// src/controllers/conversation.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Conversation, Housing, Message, MessageReport, User } from '../models';
+import { ConversationRole, IConversation } from '../models/Conversation';
+import { REPORT_REASONS } from '../models/MessageReport';
+import { storeFiles, streamFile, deleteFiles } from '../services/storage.service';
+import { recordAudit } from '../services/audit.service';
+import { MESSAGE_ATTACHMENTS_BUCKET } from '../services/conversation.service';
+import { refId } from '../utils/refs';
+const PREVIEW_LENGTH = 100;
+
+const conversationNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Conversation non trouvée'
+  });
+
+const closedConversationResponse = (res: Response, conversation: IConversation) =>
+  res.status(403).json({
+    success: false,
+    message: 'Cette conversation est fermée, aucun message ne peut plus y être envoyé',
+    reason: conversation.closedReason
+  });
+
+const emptyMessageResponse = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    message: 'Le message doit contenir du texte ou une pièce jointe'
+  });
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError' && error.name !== 'CastError') return null;
+  const messages = error.errors
+    ? Object.values(error.errors).map((err: any) => err.message)
+    : [error.message];
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+// Rôle de l'utilisateur dans la conversation (null s'il n'y participe pas)
+const participantRole = (conversation: IConversation, userId: string): ConversationRole | null => {
+  if (refId(conversation, 'student') === userId) return 'student';
+  if (refId(conversation, 'landlord') === userId) return 'landlord';
+  return null;
+};
+
+// Conversation accessible à l'utilisateur connecté : participants, ou admin pour la modération
+const findAccessibleConversation = async (req: Request) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) return null;
+
+  const user = (req as any).user;
+  const conversation = await Conversation.findById(req.params.id);
+  if (!conversation) return null;
+
+  const role = participantRole(conversation, user.id);
+  if (!role && user.role !== 'admin') return null;
+  return { conversation, role };
+};
+
+// Interlocuteur côté annonce : le propriétaire, sinon le compte propriétaire vérifié dont l'email est
+// celui du contact (un compte non vérifié créé avec cet email ne doit pas recevoir les messages)
+const findListingContact = async (housing: any) => {
+  if (housing.owner) return housing.owner as mongoose.Types.ObjectId;
+  if (!housing.contact?.email) return null;
+  const contact = await User.findOne({
+    email: String(housing.contact.email).toLowerCase(),
+    role: 'landlord',
+    isVerified: true,
+    isSuspended: false
+  }).select('_id');
+  return (contact?._id as mongoose.Types.ObjectId | undefined) ?? null;
+};
+
+// Enregistrer un message et mettre à jour les compteurs de la conversation
+const postMessage = async (
+  conversation: IConversation,
+  senderId: string,
+  senderRole: ConversationRole,
+  body: string | undefined,
+  files: Express.Multer.File[]
+) => {
+  const attachments = await storeFiles(MESSAGE_ATTACHMENTS_BUCKET, files, {
+    conversation: String(conversation._id),
+    sender: senderId
+  });
+
+  let message;
+  try {
+    message = await Message.create({ conversation: conversation._id, sender: senderId, body, attachments });
+  } catch (error) {
+    await deleteFiles(MESSAGE_ATTACHMENTS_BUCKET, attachments.map(file => file.fileId));
+    throw error;
+  }
+
+  const recipientRole: ConversationRole = senderRole === 'student' ? 'landlord' : 'student';
+  await Conversation.updateOne(
+    { _id: conversation._id },
+    {
+      $inc: { [`unread.${recipientRole}`]: 1 },
+      $set: {
+        lastMessageAt: (message as any).createdAt,
+        lastMessagePreview: body ? body.slice(0, PREVIEW_LENGTH) : 'Pièce jointe'
+      }
+    }
+  );
+
+  return message;
+};
+
+// Total des messages non lus de l'utilisateur, toutes conversations confondues
+const countUnread = async (userId: string) => {
+  const id = new mongoose.Types.ObjectId(userId);
+  const [row] = await Conversation.aggregate([
+    { $match: { $or: [{ student: id }, { landlord: id }] } },
+    {
+      $group: {
+        _id: null,
+        total: { $sum: { $cond: [{ $eq: ['$student', id] }, '$unread.student', '$unread.landlord'] } }
+      }
+    }
+  ]);
+  return (row?.total as number) || 0;
+};
+
+// @desc    Contacter l'annonceur d'un logement (crée la conversation si besoin)
+//          (multipart/form-data : body, attachments[])
+// @route   POST /api/housing/:id/conversations
+// @access  Private/Student
+export const startConversation = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const body = req.body.body?.trim();
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de logement invalide'
+      });
+    }
+
+    if (!body && files.length === 0) {
+      return emptyMessageResponse(res);
+    }
+
+    const housing = await Housing.findById(req.params.id).select('owner contact.email');
+    if (!housing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Logement non trouvé'
+      });
+    }
+
+    const landlord = await findListingContact(housing);
+    if (!landlord) {
+      return res.status(422).json({
+        success: false,
+        message: 'L\'annonceur de ce logement n\'a pas de compte : la messagerie n\'est pas disponible'
+      });
+    }
+
+    if (landlord.toString() === userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous ne pouvez pas vous écrire à vous-même'
+      });
+    }
+
+    // Reprendre la conversation existante (création concurrente couverte par l'index unique)
+    let conversation = await Conversation.findOne({ housing: housing._id, student: userId });
+    const isNew = !conversation;
+    if (!conversation) {
+      try {
+        conversation = await Conversation.create({ housing: housing._id, student: userId, landlord });
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+        conversation = await Conversation.findOne({ housing: housing._id, student: userId });
+      }
+    }
+
+    if (!conversation) {
+      return conversationNotFoundResponse(res);
+    }
+
+    if (conversation.status === 'closed') {
+      return closedConversationResponse(res, conversation);
+    }
+
+    const message = await postMessage(conversation, userId, 'student', body, files);
+
+    res.status(isNew ? 201 : 200).json({
+      success: true,
+      data: {
+        conversation: await Conversation.findById(conversation._id)
+          .populate('housing', 'title location neighborhood images')
+          .populate('landlord', 'firstName lastName'),
+        message
+      },
+      message: 'Message envoyé'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur startConversation:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'envoi du message'
+    });
+  }
+};
+
+// @desc    Mes conversations, la plus récente en premier
+// @route   GET /api/conversations
+// @access  Private
+export const getMyConversations = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page = 1, limit = 20 } = req.query;
+
+    const query = { $or: [{ student: userId }, { landlord: userId }] };
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [conversations, total, unreadTotal] = await Promise.all([
+      Conversation.find(query)
+        .populate('housing', 'title location neighborhood images')
+        .populate('student', 'firstName lastName')
+        .populate('landlord', 'firstName lastName')
+        .sort({ lastMessageAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Conversation.countDocuments(query),
+      countUnread(userId)
+    ]);
+
+    const data = conversations.map(conversation => {
+      const role = participantRole(conversation, userId) as ConversationRole;
+      return {
+        ...conversation.toObject(),
+        role,
+        unreadCount: conversation.unread[role]
+      };
+    });
+
+    res.json({
+      success: true,
+      count: data.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      unreadTotal,
+      data
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyConversations:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des conversations'
+    });
+  }
+};
+
+// @desc    Nombre total de messages non lus (badge)
+// @route   GET /api/conversations/unread-count
+// @access  Private
+export const getUnreadCount = async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: { total: await countUnread((req as any).user.id) }
+    });
+
+  } catch (error) {
+    console.error('Erreur getUnreadCount:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Historique des messages, le plus récent en premier (marque la conversation comme lue)
+//          ex: ?page=2&limit=30
+// @route   GET /api/conversations/:id/messages
+// @access  Private (participants ou admin)
+export const getConversationMessages = async (req: Request, res: Response) => {
+  try {
+    const access = await findAccessibleConversation(req);
+    if (!access) {
+      return conversationNotFoundResponse(res);
+    }
+    const { conversation, role } = access;
+    const { page = 1, limit = 30 } = req.query;
+
+    // Les messages masqués par la modération ne restent visibles que pour les admins
+    const query: any = { conversation: conversation._id };
+    if (role) query.isHidden = false;
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 30));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [messages, total] = await Promise.all([
+      Message.find(query)
+        .populate('sender', 'firstName lastName role')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Message.countDocuments(query)
+    ]);
+
+    // Lecture par un participant : ses messages reçus sont marqués comme lus
+    if (role && conversation.unread[role] > 0) {
+      await Promise.all([
+        Message.updateMany(
+          { conversation: conversation._id, sender: { $ne: (req as any).user.id }, readAt: null },
+          { readAt: new Date() }
+        ),
+        Conversation.updateOne({ _id: conversation._id }, { [`unread.${role}`]: 0 })
+      ]);
+    }
+
+    res.json({
+      success: true,
+      count: messages.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      conversation: await Conversation.findById(conversation._id)
+        .populate('housing', 'title location neighborhood images')
+        .populate('student', 'firstName lastName')
+        .populate('landlord', 'firstName lastName'),
+      data: messages
+    });
+
+  } catch (error) {
+    console.error('Erreur getConversationMessages:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des messages'
+    });
+  }
+};
+
+// @desc    Répondre dans une conversation
+//          (multipart/form-data : body, attachments[])
+// @route   POST /api/conversations/:id/messages
+// @access  Private (participants)
+export const sendMessage = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const body = req.body.body?.trim();
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    const access = await findAccessibleConversation(req);
+    if (!access || !access.role) {
+      return conversationNotFoundResponse(res);
+    }
+
+    if (access.conversation.status === 'closed') {
+      return closedConversationResponse(res, access.conversation);
+    }
+
+    if (!body && files.length === 0) {
+      return emptyMessageResponse(res);
+    }
+
+    const message = await postMessage(access.conversation, userId, access.role, body, files);
+
+    res.status(201).json({
+      success: true,
+      data: message,
+      message: 'Message envoyé'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur sendMessage:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'envoi du message'
+    });
+  }
+};
+
+// @desc    Télécharger une pièce jointe
+// @route   GET /api/conversations/:id/messages/:messageId/attachments/:fileId
+// @access  Private (participants ou admin)
+export const getMessageAttachment = async (req: Request, res: Response) => {
+  try {
+    const access = await findAccessibleConversation(req);
+    if (!access || !mongoose.Types.ObjectId.isValid(req.params.messageId)) {
+      return conversationNotFoundResponse(res);
+    }
+
+    const message = await Message.findOne({ _id: req.params.messageId, conversation: access.conversation._id });
+    if (!message || (message.isHidden && access.role) ||
+      !message.attachments.some(file => file.fileId === req.params.fileId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pièce jointe non trouvée'
+      });
+    }
+
+    await streamFile(MESSAGE_ATTACHMENTS_BUCKET, req.params.fileId, res);
+
+  } catch (error) {
+    console.error('Erreur getMessageAttachment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Signaler une conversation ou un message (arnaque, harcèlement...)
+//          body: { reason, details, message }
+// @route   POST /api/conversations/:id/reports
+// @access  Private (participants)
+export const reportConversation = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { reason, details, message: messageId } = req.body;
+
+    const access = await findAccessibleConversation(req);
+    if (!access || !access.role) {
+      return conversationNotFoundResponse(res);
+    }
+
+    if (!REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({
+        success: false,
+        message: `Motif invalide. Valeurs possibles: ${REPORT_REASONS.join(', ')}`
+      });
+    }
+
+    if (messageId && (!mongoose.Types.ObjectId.isValid(messageId) ||
+      !(await Message.exists({ _id: messageId, conversation: access.conversation._id })))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message non trouvé dans cette conversation'
+      });
+    }
+
+    const existing = await MessageReport.exists({
+      conversation: access.conversation._id,
+      message: messageId || null,
+      reporter: userId,
+      status: 'open'
+    });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà signalé ce contenu, il est en cours d\'examen'
+      });
+    }
+
+    const report = await MessageReport.create({
+      conversation: access.conversation._id,
+      message: messageId || undefined,
+      reporter: userId,
+      reason,
+      details
+    });
+
+    res.status(201).json({
+      success: true,
+      data: report,
+      message: 'Signalement transmis à l\'équipe de modération'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur reportConversation:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors du signalement'
+    });
+  }
+};
+
+// @desc    Toutes les conversations, pour la modération
+//          ex: ?user=<id>&housing=<id>&status=closed
+// @route   GET /api/conversations/manage
+// @access  Private/Admin
+export const getConversationsForAdmin = async (req: Request, res: Response) => {
+  try {
+    const { user, housing, status, page = 1, limit = 20 } = req.query;
+
+    if ((user && !mongoose.Types.ObjectId.isValid(user as string)) ||
+      (housing && !mongoose.Types.ObjectId.isValid(housing as string))) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID invalide'
+      });
+    }
+
+    const query: any = {};
+    if (user) query.$or = [{ student: user }, { landlord: user }];
+    if (housing) query.housing = housing;
+    if (status) query.status = status;
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [conversations, total] = await Promise.all([
+      Conversation.find(query)
+        .populate('housing', 'title location')
+        .populate('student', 'email firstName lastName')
+        .populate('landlord', 'email firstName lastName')
+        .sort({ lastMessageAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Conversation.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: conversations.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: conversations
+    });
+
+  } catch (error) {
+    console.error('Erreur getConversationsForAdmin:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des conversations'
+    });
+  }
+};
+
+// @desc    Signalements à traiter (les plus anciens en premier)
+//          ex: ?status=open|resolved|dismissed|all
+// @route   GET /api/conversations/reports
+// @access  Private/Admin
+export const getMessageReports = async (req: Request, res: Response) => {
+  try {
+    const { status = 'open', page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status !== 'all') query.status = status;
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [reports, total] = await Promise.all([
+      MessageReport.find(query)
+        .populate('reporter', 'email firstName lastName role')
+        .populate('message')
+        .populate({
+          path: 'conversation',
+          populate: [
+            { path: 'housing', select: 'title location' },
+            { path: 'student', select: 'email firstName lastName' },
+            { path: 'landlord', select: 'email firstName lastName' }
+          ]
+        })
+        .populate('resolvedBy', 'email firstName lastName')
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(limitNum),
+      MessageReport.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: reports.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: reports
+    });
+
+  } catch (error) {
+    console.error('Erreur getMessageReports:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des signalements'
+    });
+  }
+};
+
+// @desc    Traiter un signalement, en masquant le message et/ou en fermant la conversation
+//          body: { status: "resolved" | "dismissed", note, hideMessage, closeConversation }
+// @route   PATCH /api/conversations/reports/:reportId
+// @access  Private/Admin
+export const resolveMessageReport = async (req: Request, res: Response) => {
+  try {
+    const adminId = (req as any).user.id;
+    const { status, note, hideMessage, closeConversation } = req.body;
+
+    if (!['resolved', 'dismissed'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le statut doit être "resolved" ou "dismissed"'
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.reportId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Signalement non trouvé'
+      });
+    }
+
+    const report = await MessageReport.findById(req.params.reportId);
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Signalement non trouvé'
+      });
+    }
+
+    if (report.status !== 'open') {
+      return res.status(400).json({
+        success: false,
+        message: `Ce signalement a déjà été traité (${report.status})`
+      });
+    }
+
+    if (status === 'resolved' && hideMessage && report.message) {
+      await Message.updateOne(
+        { _id: report.message },
+        { isHidden: true, hiddenBy: adminId, hiddenReason: note || report.reason }
+      );
+    }
+
+    if (status === 'resolved' && closeConversation) {
+      await Conversation.updateOne(
+        { _id: report.conversation },
+        { status: 'closed', closedBy: adminId, closedReason: note || report.reason }
+      );
+    }
+
+    report.status = status;
+    report.resolvedBy = adminId;
+    report.resolvedAt = new Date();
+    report.resolutionNote = note;
+    await report.save();
+
+    await recordAudit(req, `message_report.${status}`, 'MessageReport', String(report._id), {
+      conversation: String(report.conversation),
+      message: report.message ? String(report.message) : undefined,
+      hideMessage: !!hideMessage,
+      closeConversation: !!closeConversation,
+      note
+    });
+
+    res.json({
+      success: true,
+      data: report,
+      message: status === 'resolved' ? 'Signalement traité' : 'Signalement classé sans suite'
+    });
+
+  } catch (error) {
+    console.error('Erreur resolveMessageReport:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors du traitement du signalement'
+    });
+  }
+};
+
+// @desc    Fermer ou rouvrir une conversation
+//          body: { status: "open" | "closed", reason }
+// @route   PATCH /api/conversations/:id/status
+// @access  Private/Admin
+export const setConversationStatus = async (req: Request, res: Response) => {
+  try {
+    const { status, reason } = req.body;
+
+    if (!['open', 'closed'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le statut doit être "open" ou "closed"'
+      });
+    }
+
+    if (status === 'closed' && !reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'Un motif de fermeture est requis'
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return conversationNotFoundResponse(res);
+    }
+
+    const update = status === 'closed'
+      ? { status, closedBy: (req as any).user.id, closedReason: reason }
+      : { status, $unset: { closedBy: 1, closedReason: 1 } };
+    const conversation = await Conversation.findByIdAndUpdate(req.params.id, update, { new: true });
+    if (!conversation) {
+      return conversationNotFoundResponse(res);
+    }
+
+    await recordAudit(req, `conversation.${status === 'closed' ? 'closed' : 'reopened'}`, 'Conversation', String(conversation._id), {
+      reason
+    });
+
+    res.json({
+      success: true,
+      data: conversation,
+      message: status === 'closed' ? 'Conversation fermée' : 'Conversation rouverte'
+    });
+
+  } catch (error) {
+    console.error('Erreur setConversationStatus:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
\ No newline at end of file
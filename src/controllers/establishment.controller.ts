@@ -1,38 +1,126 @@
 // backend/src/controllers/establishment.controller.ts
 import { Request, Response } from 'express';
-import { Establishment } from '../models';
+import mongoose from 'mongoose';
+import { Establishment, Program, Review, Scholarship, AdmissionEvent } from '../models';
+import {
+  importEstablishmentItems,
+  buildImportSummary,
+  mapSpreadsheetRow,
+  parseImportOptions
+} from '../services/establishmentImport.service';
+import { parseSpreadsheet } from '../services/spreadsheet.service';
+import { sendExport, EXPORT_FORMATS, ExportColumn, ExportFormat } from '../services/export.service';
+import { findNear } from '../services/geo.service';
+import { buildEstablishmentComparison } from '../services/comparison.service';
+import { parseSearchQuery, textSearch } from '../services/search.service';
+import { clearSuggestionCache } from '../services/suggestion.service';
+import { deleteApplications } from '../services/application.service';
+import { parseNearQuery, NEAR_QUERY_ERROR } from '../utils/geo';
+import { accentInsensitivePattern } from '../utils/text';
+
+// Nombre maximum de lignes traitées lors d'un import par fichier
+const MAX_FILE_IMPORT_ROWS = 5000;
+
+// Colonnes d'export (mêmes en-têtes que l'import par fichier, pour pouvoir ré-importer)
+const ESTABLISHMENT_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'ID', value: doc => String(doc._id) },
+  { header: 'Nom', value: doc => doc.name },
+  { header: 'Type', value: doc => doc.type },
+  { header: 'Ville', value: doc => doc.location },
+  { header: 'Description', value: doc => doc.description },
+  { header: 'Nombre d\'étudiants', value: doc => doc.studentsCount },
+  { header: 'Note', value: doc => doc.rating },
+  { header: 'Reconnu CAMES', value: doc => Boolean(doc.isCAMESRecognized) },
+  { header: 'Programmes', value: doc => doc.programs || [] },
+  { header: 'Email', value: doc => doc.contact?.email },
+  { header: 'Téléphone', value: doc => doc.contact?.phone },
+  { header: 'Site web', value: doc => doc.contact?.website },
+  { header: 'Latitude', value: doc => doc.coordinates?.lat },
+  { header: 'Longitude', value: doc => doc.coordinates?.lng },
+  { header: 'Créé le', value: doc => doc.createdAt },
+  { header: 'Mis à jour le', value: doc => doc.updatedAt }
+];
+
+// Champs calculés à partir des avis : jamais acceptés depuis la requête
+const stripComputedFields = (body: any) => {
+  const { rating, reviewsCount, ratingBreakdown, ...data } = body;
+  return data;
+};
+
+// Nombre d'établissements comparables côte à côte
+const MIN_COMPARED = 2;
+const MAX_COMPARED = 4;
+
+// Message de fin d'import
+const describeImport = (results: { imported: any[]; updated: any[] }, dryRun?: boolean) =>
+  dryRun
+    ? `Simulation terminée: ${results.imported.length} établissements seraient importés, ${results.updated.length} mis à jour`
+    : `Import terminé: ${results.imported.length} établissements importés, ${results.updated.length} mis à jour`;
+
+// Filtres communs à la liste et à l'export des établissements
+const buildEstablishmentQuery = (params: any) => {
+  const { type, location, search, exclude } = params;
+  const query: any = {};
+  
+  if (type) query.type = type;
+  if (location) query.location = { $regex: accentInsensitivePattern(String(location)), $options: 'i' };
+  if (search) {
+    const pattern = accentInsensitivePattern(String(search));
+    query.$or = [
+      { name: { $regex: pattern, $options: 'i' } },
+      { description: { $regex: pattern, $options: 'i' } },
+      { location: { $regex: pattern, $options: 'i' } }
+    ];
+  }
+  
+  // Exclure un établissement spécifique si demandé
+  if (exclude) {
+    query._id = { $ne: exclude };
+  }
+  
+  return query;
+};
 
 // @desc    Récupérer tous les établissements
+//          ?near=lat,lng&radiusKm=10 : établissements autour d'un point, du plus proche au plus éloigné
 // @route   GET /api/establishments
 // @access  Public
 // backend/src/controllers/establishment.controller.ts - Modifiez la fonction getEstablishments
 export const getEstablishments = async (req: Request, res: Response) => {
   try {
-    const { type, location, search, page = 1, limit = 12, exclude } = req.query;
+    const { page = 1, limit = 12 } = req.query;
     
-    // Construction de la requête de filtrage
-    const query: any = {};
-    
-    if (type) query.type = type;
-    if (location) query.location = { $regex: location, $options: 'i' };
-    if (search) {
-      query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { location: { $regex: search, $options: 'i' } }
-      ];
+    const near = parseNearQuery(req.query.near, req.query.radiusKm);
+    if (near === null) {
+      return res.status(400).json({
+        success: false,
+        message: NEAR_QUERY_ERROR
+      });
     }
     
-    // Exclure un établissement spécifique si demandé
-    if (exclude) {
-      query._id = { $ne: exclude };
-    }
+    // Construction de la requête de filtrage
+    const query = buildEstablishmentQuery(req.query);
     
     // Pagination
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
     
+    // Recherche par proximité : chaque résultat porte sa distance (km)
+    if (near) {
+      const { data, total } = await findNear(Establishment, near, query, { skip, limit: limitNum });
+      
+      return res.json({
+        success: true,
+        count: data.length,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        currentPage: pageNum,
+        near,
+        data
+      });
+    }
+    
     // Exécution des requêtes
     const [establishments, total] = await Promise.all([
       Establishment.find(query)
@@ -60,6 +148,96 @@ export const getEstablishments = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Exporter les établissements (mêmes filtres que la liste) en CSV, XLSX ou JSON
+// @route   GET /api/establishments/export?format=csv|xlsx|json
+// @access  Private/Admin
+export const exportEstablishments = async (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || 'csv').toLowerCase() as ExportFormat;
+    
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format invalide. Formats valides: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+    
+    const cursor = Establishment.find(buildEstablishmentQuery(req.query))
+      .sort({ name: 1 })
+      .lean()
+      .cursor();
+    
+    await sendExport(res, format, cursor, ESTABLISHMENT_EXPORT_COLUMNS, {
+      filename: 'etablissements',
+      sheetName: 'Établissements'
+    });
+    
+  } catch (error) {
+    console.error('Erreur exportEstablishments:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'export des établissements'
+    });
+  }
+};
+
+// @desc    Comparer 2 à 4 établissements côte à côte
+//          ex: ?ids=id1,id2,id3
+// @route   GET /api/establishments/compare
+// @access  Public
+export const compareEstablishments = async (req: Request, res: Response) => {
+  try {
+    const ids = [...new Set(String(req.query.ids || '').split(',').map(id => id.trim()).filter(Boolean))];
+    
+    if (ids.length < MIN_COMPARED || ids.length > MAX_COMPARED) {
+      return res.status(400).json({
+        success: false,
+        message: `Indiquez entre ${MIN_COMPARED} et ${MAX_COMPARED} établissements distincts (ids=id1,id2)`
+      });
+    }
+    
+    const invalidIds = ids.filter(id => !mongoose.Types.ObjectId.isValid(id));
+    if (invalidIds.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `ID d'établissement invalide: ${invalidIds.join(', ')}`
+      });
+    }
+    
+    const found = await Establishment.find({ _id: { $in: ids } });
+    const byId = new Map(found.map(establishment => [String(establishment._id), establishment]));
+    
+    const missing = ids.filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        message: `Établissement(s) non trouvé(s): ${missing.join(', ')}`
+      });
+    }
+    
+    // Conserver l'ordre demandé par le client
+    const establishments = ids.map(id => byId.get(id)!);
+    const comparison = await buildEstablishmentComparison(establishments);
+    
+    res.json({
+      success: true,
+      count: comparison.items.length,
+      differences: comparison.differences,
+      data: comparison.items
+    });
+    
+  } catch (error) {
+    console.error('Erreur compareEstablishments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la comparaison des établissements'
+    });
+  }
+};
+
 // @desc    Récupérer un établissement par ID
 // @route   GET /api/establishments/:id
 // @access  Public
@@ -90,7 +268,7 @@ export const getEstablishmentById = async (req: Request, res: Response) => {
 
 // @desc    Créer un nouvel établissement
 // @route   POST /api/establishments
-// @access  Private/Admin (pour l'instant public pour le développement)
+// @access  Private/Admin
 export const createEstablishment = async (req: Request, res: Response) => {
   try {
     // Validation des données requises
@@ -116,10 +294,11 @@ export const createEstablishment = async (req: Request, res: Response) => {
     }
     
     const establishment = await Establishment.create({
-      ...req.body,
+      ...stripComputedFields(req.body),
       createdAt: new Date(),
       updatedAt: new Date()
     });
+    clearSuggestionCache();
     
     res.status(201).json({
       success: true,
@@ -145,13 +324,21 @@ export const createEstablishment = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Importer plusieurs établissements en batch
+// @desc    Importer plusieurs établissements en batch (?mode=insert|upsert|dryRun)
 // @route   POST /api/establishments/batch
 // @access  Private/Admin
 export const importEstablishmentsBatch = async (req: Request, res: Response) => {
   try {
     const { items } = req.body;
 
+    const importOptions = parseImportOptions(req.query.mode || req.body.mode, req.query.dryRun || req.body.dryRun);
+    if (!importOptions) {
+      return res.status(400).json({
+        success: false,
+        message: 'Mode invalide. Modes valides: insert, upsert, dryRun'
+      });
+    }
+
     // Validation de base
     if (!items || !Array.isArray(items)) {
       return res.status(400).json({
@@ -169,141 +356,115 @@ export const importEstablishmentsBatch = async (req: Request, res: Response) =>
       });
     }
 
-    const results = {
-      imported: [] as any[],
-      errors: [] as string[],
-      skipped: [] as string[]
-    };
+    const results = await importEstablishmentItems(items, importOptions);
+    
+    // Les nouveaux noms doivent apparaître tout de suite dans l'autocomplétion
+    if (!importOptions.dryRun) clearSuggestionCache();
 
-    // Traitement séquentiel pour mieux gérer les erreurs
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      const lineNumber = i + 1;
-      
-      try {
-        // Validation des données requises
-        if (!item.name || !item.type || !item.location) {
-          results.errors.push(`Ligne ${lineNumber}: Champs requis manquants (nom, type, localisation)`);
-          continue;
-        }
+    const showDetails = process.env.NODE_ENV === 'development' || req.query.details === 'true';
+    const summary = buildImportSummary(items.length, results, showDetails, importOptions);
 
-        // Validation de l'email
-        if (!item.contact?.email) {
-          results.errors.push(`Ligne ${lineNumber}: Email de contact requis`);
-          continue;
-        }
+    // Préparer la réponse
+    const response = {
+      success: true,
+      summary: summary,
+      message: describeImport(results, importOptions.dryRun)
+    };
 
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(item.contact.email)) {
-          results.errors.push(`Ligne ${lineNumber}: Format d'email invalide`);
-          continue;
-        }
+    res.status(200).json(response);
 
-        // Vérifier si l'établissement existe déjà
-        const existing = await Establishment.findOne({
-          $or: [
-            { name: item.name.trim() },
-            { 'contact.email': item.contact.email.toLowerCase() }
-          ]
-        });
+  } catch (error: any) {
+    console.error('Erreur importEstablishmentsBatch:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'import batch',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
 
-        if (existing) {
-          results.skipped.push(`Ligne ${lineNumber}: "${item.name}" existe déjà`);
-          continue;
-        }
+// @desc    Importer des établissements depuis un fichier XLSX/CSV (?mode=insert|upsert|dryRun)
+// @route   POST /api/establishments/import
+// @access  Private/Admin
+export const importEstablishmentsFile = async (req: Request, res: Response) => {
+  try {
+    const file = req.file;
 
-        // Préparer les données
-        const establishmentData = {
-          name: item.name.trim(),
-          type: item.type.toLowerCase(),
-          location: item.location,
-          description: item.description || '',
-          studentsCount: item.studentsCount || 0,
-          rating: Math.min(5, Math.max(0, item.rating || 0)), // Limiter entre 0 et 5
-          isCAMESRecognized: Boolean(item.isCAMESRecognized),
-          programs: Array.isArray(item.programs) 
-            ? item.programs.map((p: string) => p.toString().trim()).filter(Boolean)
-            : [],
-          images: Array.isArray(item.images) ? item.images : [],
-          contact: {
-            email: item.contact.email.toLowerCase().trim(),
-            phone: item.contact.phone?.toString().trim() || '',
-            website: item.contact.website?.toString().trim() || ''
-          },
-          coordinates: item.coordinates || null,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-
-        // Vérifier le type
-        const validTypes = ['university', 'school', 'institute'];
-        if (!validTypes.includes(establishmentData.type)) {
-          results.errors.push(`Ligne ${lineNumber}: Type invalide (${validTypes.join(', ')})`);
-          continue;
-        }
+    if (!file) {
+      return res.status(400).json({
+        success: false,
+        message: 'Aucun fichier fourni (champ "file")'
+      });
+    }
 
-        // Créer l'établissement
-        const establishment = await Establishment.create(establishmentData);
-        
-        results.imported.push({
-          id: establishment._id,
-          name: establishment.name,
-          email: establishment.contact.email
-        });
+    const importOptions = parseImportOptions(req.query.mode || req.body.mode, req.query.dryRun || req.body.dryRun);
+    if (!importOptions) {
+      return res.status(400).json({
+        success: false,
+        message: 'Mode invalide. Modes valides: insert, upsert, dryRun'
+      });
+    }
 
-      } catch (error: any) {
-        console.error(`Erreur ligne ${lineNumber}:`, error);
-        results.errors.push(`Ligne ${lineNumber}: ${error.message || 'Erreur inconnue'}`);
+    // Mapping optionnel des colonnes, ex: {"Nom de l'école": "name"}
+    let customMapping: Record<string, string> = {};
+    if (req.body.mapping) {
+      try {
+        customMapping = typeof req.body.mapping === 'string' ? JSON.parse(req.body.mapping) : req.body.mapping;
+      } catch {
+        return res.status(400).json({
+          success: false,
+          message: 'Le mapping de colonnes doit être un objet JSON valide'
+        });
       }
     }
 
-    // Définir l'interface pour le summary
-    interface ImportSummary {
-      total: number;
-      imported: number;
-      errors: number;
-      skipped: number;
-      errorDetails?: string[];
-      skippedDetails?: string[];
-      importedDetails?: any[];
+    let rows;
+    try {
+      rows = parseSpreadsheet(file.buffer, file.originalname, file.mimetype);
+    } catch (parseError) {
+      console.error('Erreur lecture tableur:', parseError);
+      return res.status(400).json({
+        success: false,
+        message: 'Fichier illisible. Formats acceptés: XLSX, XLS, CSV'
+      });
     }
 
-    // Créer le summary
-    const summary: ImportSummary = {
-      total: items.length,
-      imported: results.imported.length,
-      errors: results.errors.length,
-      skipped: results.skipped.length
-    };
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le fichier ne contient aucune ligne de données'
+      });
+    }
 
-    // Ajouter les détails d'erreur si en mode développement ou si demandé
-    const showDetails = process.env.NODE_ENV === 'development' || req.query.details === 'true';
-    if (showDetails) {
-      if (results.errors.length > 0) {
-        summary.errorDetails = results.errors.slice(0, 20); // Limiter à 20 erreurs
-      }
-      if (results.skipped.length > 0) {
-        summary.skippedDetails = results.skipped.slice(0, 20);
-      }
-      if (results.imported.length > 0 && results.imported.length <= 10) {
-        summary.importedDetails = results.imported;
-      }
+    if (rows.length > MAX_FILE_IMPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        message: `Maximum ${MAX_FILE_IMPORT_ROWS} lignes par fichier`
+      });
     }
 
-    // Préparer la réponse
-    const response = {
-      success: true,
-      summary: summary,
-      message: `Import terminé: ${results.imported.length} établissements importés`
-    };
+    const items = rows.map(row => mapSpreadsheetRow(row, customMapping));
 
-    res.status(200).json(response);
+    // La ligne 1 du fichier est l'en-tête : les données commencent ligne 2
+    const results = await importEstablishmentItems(items, { ...importOptions, lineOffset: 2 });
+    
+    // Les nouveaux noms doivent apparaître tout de suite dans l'autocomplétion
+    if (!importOptions.dryRun) clearSuggestionCache();
+
+    const showDetails = process.env.NODE_ENV === 'development' || req.query.details === 'true';
+    const summary = buildImportSummary(items.length, results, showDetails, importOptions);
+
+    res.status(200).json({
+      success: true,
+      summary,
+      message: `${describeImport(results, importOptions.dryRun)} (${file.originalname})`
+    });
 
   } catch (error: any) {
-    console.error('Erreur importEstablishmentsBatch:', error);
+    console.error('Erreur importEstablishmentsFile:', error);
     res.status(500).json({
       success: false,
-      message: 'Erreur serveur lors de l\'import batch',
+      message: 'Erreur serveur lors de l\'import du fichier',
       error: process.env.NODE_ENV === 'development' ? error.message : undefined
     });
   }
@@ -311,7 +472,7 @@ export const importEstablishmentsBatch = async (req: Request, res: Response) =>
 
 // @desc    Mettre à jour un établissement
 // @route   PUT /api/establishments/:id
-// @access  Private/Admin
+// @access  Private/Admin ou personnel de l'établissement
 export const updateEstablishment = async (req: Request, res: Response) => {
   try {
     // Valider l'email si présent
@@ -328,7 +489,7 @@ export const updateEstablishment = async (req: Request, res: Response) => {
     const establishment = await Establishment.findByIdAndUpdate(
       req.params.id,
       {
-        ...req.body,
+        ...stripComputedFields(req.body),
         updatedAt: new Date()
       },
       { new: true, runValidators: true }
@@ -340,6 +501,7 @@ export const updateEstablishment = async (req: Request, res: Response) => {
         message: 'Établissement non trouvé'
       });
     }
+    clearSuggestionCache();
     
     res.json({
       success: true,
@@ -379,6 +541,20 @@ export const deleteEstablishment = async (req: Request, res: Response) => {
       });
     }
     
+    // Supprimer les formations, avis, événements et candidatures rattachés, et les retirer des bourses
+    const programIds = await Program.find({ establishment: establishment._id }).distinct('_id');
+    await Promise.all([
+      Program.deleteMany({ establishment: establishment._id }),
+      Review.deleteMany({ establishment: establishment._id }),
+      AdmissionEvent.deleteMany({ establishment: establishment._id }),
+      deleteApplications({ establishment: establishment._id }),
+      Scholarship.updateMany(
+        {},
+        { $pull: { establishments: establishment._id, programs: { $in: programIds } } }
+      )
+    ]);
+    clearSuggestionCache();
+    
     res.json({
       success: true,
       message: 'Établissement supprimé avec succès',
@@ -397,26 +573,42 @@ export const deleteEstablishment = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Rechercher des établissements
+// @desc    Rechercher des établissements (plein texte, trié par pertinence)
+//          ex: /search/informatique%20thies?page=2&limit=10
 // @route   GET /api/establishments/search/:keyword
 // @access  Public
 export const searchEstablishments = async (req: Request, res: Response) => {
   try {
-    const keyword = req.params.keyword;
+    const { page = 1, limit = 20 } = req.query;
+    
+    const search = parseSearchQuery(req.params.keyword);
+    if (!search) {
+      return res.status(400).json({
+        success: false,
+        message: 'Terme de recherche requis'
+      });
+    }
     
-    const establishments = await Establishment.find({
-      $or: [
-        { name: { $regex: keyword, $options: 'i' } },
-        { description: { $regex: keyword, $options: 'i' } },
-        { location: { $regex: keyword, $options: 'i' } },
-        { programs: { $regex: keyword, $options: 'i' } }
-      ]
-    }).limit(20);
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+    
+    const { data, total } = await textSearch(Establishment, search, {
+      skip,
+      limit: limitNum,
+      highlightFields: ['name', 'programs', 'location', 'description']
+    });
     
     res.json({
       success: true,
-      count: establishments.length,
-      data: establishments
+      count: data.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      query: search.text,
+      corrections: search.corrections,
+      data
     });
     
   } catch (error) {
@@ -0,0 +1,65 @@
+// src/controllers/favoriteList.controller.spec.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { FavoriteList } from '../models';
+import { removeFavoriteListItem } from './favoriteList.controller';
+
+const mockResponse = () => {
+  const res: Partial<Response> = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response;
+};
+
+const userId = new mongoose.Types.ObjectId();
+const kept = new mongoose.Types.ObjectId();
+const removed = new mongoose.Types.ObjectId();
+
+// Liste telle que chargée depuis la base, sans accès réel à MongoDB
+const loadList = () => {
+  const list = FavoriteList.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    user: userId,
+    name: 'Dakar',
+    items: [
+      { _id: new mongoose.Types.ObjectId(), itemType: 'Housing', item: kept, addedAt: new Date() },
+      { _id: new mongoose.Types.ObjectId(), itemType: 'Establishment', item: removed, addedAt: new Date() }
+    ]
+  });
+  jest.spyOn(list, 'save').mockResolvedValue(list);
+  jest.spyOn(list, 'populate').mockResolvedValue(list);
+  jest.spyOn(FavoriteList, 'findOne').mockResolvedValue(list);
+  return list;
+};
+
+const request = (itemId: string) => ({
+  params: { listId: new mongoose.Types.ObjectId().toString(), itemId },
+  user: { id: userId.toString() }
+}) as unknown as Request;
+
+describe('removeFavoriteListItem', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('retire l\'élément demandé et enregistre la liste', async () => {
+    const list = loadList();
+    const res = mockResponse();
+
+    await removeFavoriteListItem(request(removed.toString()), res);
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(list.save).toHaveBeenCalled();
+    expect(list.items.map(entry => entry.item.toString())).toEqual([kept.toString()]);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+
+  it('répond 404 si l\'élément n\'est pas dans la liste', async () => {
+    const list = loadList();
+    const res = mockResponse();
+
+    await removeFavoriteListItem(request(new mongoose.Types.ObjectId().toString()), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(list.save).not.toHaveBeenCalled();
+    expect(list.items).toHaveLength(2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,322 @@
+// src/controllers/favoriteList.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { FavoriteList, Establishment, Housing } from '../models';
+
+const MAX_LISTS_PER_USER = 50;
+
+// Type d'élément accepté dans l'API -> modèle Mongo correspondant
+const ITEM_TYPES: Record<string, { modelName: 'Establishment' | 'Housing'; model: mongoose.Model<any> }> = {
+  establishment: { modelName: 'Establishment', model: Establishment },
+  housing: { modelName: 'Housing', model: Housing }
+};
+
+const listNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Liste non trouvée'
+  });
+
+// Charger une liste appartenant à l'utilisateur connecté
+const findUserList = (req: Request) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.listId)) {
+    return null;
+  }
+  return FavoriteList.findOne({ _id: req.params.listId, user: (req as any).user.id });
+};
+
+// Populer les éléments et écarter ceux dont la cible a été supprimée
+const populateList = async (list: any) => {
+  await list.populate('items.item');
+  const items = list.items.filter((entry: any) => entry.item);
+
+  if (items.length !== list.items.length) {
+    list.items = items;
+    await list.save();
+  }
+
+  return list;
+};
+
+// @desc    Récupérer les listes de favoris de l'utilisateur
+// @route   GET /api/users/favorites/lists
+// @access  Private
+export const getFavoriteLists = async (req: Request, res: Response) => {
+  try {
+    const lists = await FavoriteList.find({ user: (req as any).user.id }).sort({ updatedAt: -1 });
+
+    res.json({
+      success: true,
+      count: lists.length,
+      data: lists.map(list => ({
+        _id: list._id,
+        name: list.name,
+        description: list.description,
+        itemsCount: list.items.length,
+        updatedAt: (list as any).updatedAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('Erreur getFavoriteLists:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Créer une liste de favoris
+// @route   POST /api/users/favorites/lists
+// @access  Private
+export const createFavoriteList = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { name, description } = req.body;
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le nom de la liste est requis'
+      });
+    }
+
+    const count = await FavoriteList.countDocuments({ user: userId });
+    if (count >= MAX_LISTS_PER_USER) {
+      return res.status(400).json({
+        success: false,
+        message: `Maximum ${MAX_LISTS_PER_USER} listes par utilisateur`
+      });
+    }
+
+    const list = await FavoriteList.create({ user: userId, name, description });
+
+    res.status(201).json({
+      success: true,
+      data: list
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createFavoriteList:', error);
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Une liste avec ce nom existe déjà'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la création de la liste'
+    });
+  }
+};
+
+// @desc    Récupérer une liste avec ses éléments
+// @route   GET /api/users/favorites/lists/:listId
+// @access  Private
+export const getFavoriteListById = async (req: Request, res: Response) => {
+  try {
+    const list = await findUserList(req);
+    if (!list) {
+      return listNotFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      data: await populateList(list)
+    });
+
+  } catch (error) {
+    console.error('Erreur getFavoriteListById:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Renommer / modifier une liste
+// @route   PUT /api/users/favorites/lists/:listId
+// @access  Private
+export const updateFavoriteList = async (req: Request, res: Response) => {
+  try {
+    const list = await findUserList(req);
+    if (!list) {
+      return listNotFoundResponse(res);
+    }
+
+    const { name, description } = req.body;
+    if (name !== undefined) list.name = name;
+    if (description !== undefined) list.description = description;
+    await list.save();
+
+    res.json({
+      success: true,
+      data: list
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateFavoriteList:', error);
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Une liste avec ce nom existe déjà'
+      });
+    }
+
+    res.status(400).json({
+      success: false,
+      message: 'Erreur lors de la mise à jour'
+    });
+  }
+};
+
+// @desc    Supprimer une liste
+// @route   DELETE /api/users/favorites/lists/:listId
+// @access  Private
+export const deleteFavoriteList = async (req: Request, res: Response) => {
+  try {
+    const list = await findUserList(req);
+    if (!list) {
+      return listNotFoundResponse(res);
+    }
+
+    await list.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Liste supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteFavoriteList:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Ajouter un établissement ou un logement à une liste
+// @route   POST /api/users/favorites/lists/:listId/items
+// @access  Private
+export const addFavoriteListItem = async (req: Request, res: Response) => {
+  try {
+    const { type, itemId, note } = req.body;
+    const itemType = ITEM_TYPES[type];
+
+    if (!itemType) {
+      return res.status(400).json({
+        success: false,
+        message: `Type invalide. Types valides: ${Object.keys(ITEM_TYPES).join(', ')}`
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(itemId) || !(await itemType.model.exists({ _id: itemId }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Élément à ajouter non trouvé'
+      });
+    }
+
+    const list = await findUserList(req);
+    if (!list) {
+      return listNotFoundResponse(res);
+    }
+
+    const existing = list.items.find(entry => entry.item.toString() === itemId);
+    if (existing) {
+      // Déjà présent : on met simplement la note à jour
+      if (note !== undefined) existing.note = note;
+    } else {
+      list.items.push({ itemType: itemType.modelName, item: itemId, note });
+    }
+    await list.save();
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      message: existing ? 'Élément déjà présent, note mise à jour' : 'Élément ajouté à la liste',
+      data: await populateList(list)
+    });
+
+  } catch (error) {
+    console.error('Erreur addFavoriteListItem:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Modifier la note d'un élément
+// @route   PUT /api/users/favorites/lists/:listId/items/:itemId
+// @access  Private
+export const updateFavoriteListItem = async (req: Request, res: Response) => {
+  try {
+    const list = await findUserList(req);
+    if (!list) {
+      return listNotFoundResponse(res);
+    }
+
+    const entry = list.items.find(item => item.item.toString() === req.params.itemId);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Élément absent de la liste'
+      });
+    }
+
+    entry.note = req.body.note;
+    await list.save();
+
+    res.json({
+      success: true,
+      data: await populateList(list)
+    });
+
+  } catch (error) {
+    console.error('Erreur updateFavoriteListItem:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Retirer un élément d'une liste
+// @route   DELETE /api/users/favorites/lists/:listId/items/:itemId
+// @access  Private
+export const removeFavoriteListItem = async (req: Request, res: Response) => {
+  try {
+    const list = await findUserList(req);
+    if (!list) {
+      return listNotFoundResponse(res);
+    }
+
+    const entry = list.items.find(item => item.item.toString() === req.params.itemId);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Élément absent de la liste'
+      });
+    }
+    entry.deleteOne();
+    await list.save();
+
+    res.json({
+      success: true,
+      message: 'Élément retiré de la liste',
+      data: await populateList(list)
+    });
+
+  } catch (error) {
+    console.error('Erreur removeFavoriteListItem:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
\ No newline at end of file
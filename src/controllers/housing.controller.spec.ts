@@ -0,0 +1,134 @@
+// src/controllers/housing.controller.spec.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Establishment, Housing } from '../models';
+import * as geoService from '../services/geo.service';
+import * as savedSearchService from '../services/savedSearch.service';
+import { getHousingNearEstablishment, updateHousing } from './housing.controller';
+
+const mockResponse = () => {
+  const res: Partial<Response> = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response;
+};
+
+// Établissement tel que chargé depuis la base (geoLocation absent si non géolocalisé)
+const loadEstablishment = (fields: Record<string, any>) => {
+  const establishment = Establishment.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    name: 'UCAD',
+    location: 'Dakar',
+    ...fields
+  });
+  jest.spyOn(Establishment, 'findById').mockReturnValue({
+    select: jest.fn().mockResolvedValue(establishment)
+  } as unknown as ReturnType<typeof Establishment.findById>);
+  return establishment;
+};
+
+const request = () => ({
+  params: { id: new mongoose.Types.ObjectId().toString() },
+  query: {}
+}) as unknown as Request;
+
+describe('getHousingNearEstablishment', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('répond 422 si l\'établissement n\'a pas de position', async () => {
+    loadEstablishment({});
+    const findNear = jest.spyOn(geoService, 'findNear');
+    const res = mockResponse();
+
+    await getHousingNearEstablishment(request(), res);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(findNear).not.toHaveBeenCalled();
+  });
+
+  it('cherche autour de la position enregistrée de l\'établissement', async () => {
+    loadEstablishment({
+      coordinates: { lat: 14.69, lng: -17.46 },
+      geoLocation: { type: 'Point', coordinates: [-17.46, 14.69] }
+    });
+    const findNear = jest.spyOn(geoService, 'findNear').mockResolvedValue({
+      data: [{ _id: new mongoose.Types.ObjectId(), title: 'Studio', distance: 0.8 }],
+      total: 1
+    });
+    const res = mockResponse();
+
+    await getHousingNearEstablishment(request(), res);
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(findNear).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ lat: 14.69, lng: -17.46 }),
+      expect.objectContaining({ isAvailable: true }),
+      expect.any(Object)
+    );
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, total: 1 }));
+  });
+});
+
+describe('updateHousing', () => {
+  const ownerId = new mongoose.Types.ObjectId();
+
+  const housingFields = {
+    _id: new mongoose.Types.ObjectId(),
+    title: 'Studio Mermoz',
+    type: 'studio',
+    location: 'Dakar',
+    neighborhood: 'Mermoz',
+    price: 90000,
+    bedrooms: 1,
+    isAvailable: true,
+    owner: ownerId
+  };
+
+  // Annonce avant puis après la mise à jour
+  const loadHousing = (changes: Record<string, unknown> = {}) => {
+    jest.spyOn(Housing, 'findById').mockResolvedValue(Housing.hydrate(housingFields));
+    return jest.spyOn(Housing, 'findByIdAndUpdate').mockResolvedValue(Housing.hydrate({ ...housingFields, ...changes }));
+  };
+
+  const request = (body: Record<string, unknown>) => ({
+    params: { id: housingFields._id.toString() },
+    body,
+    user: { id: ownerId.toString(), role: 'landlord' }
+  }) as unknown as Request;
+
+  beforeEach(() => {
+    jest.spyOn(savedSearchService, 'notifySavedSearches').mockResolvedValue(0);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('ignore la disponibilité et le propriétaire envoyés par un propriétaire', async () => {
+    const findByIdAndUpdate = loadHousing({ title: 'Studio rénové' });
+    const owner = new mongoose.Types.ObjectId().toString();
+
+    await updateHousing(request({ title: 'Studio rénové', isAvailable: false, owner, imageIds: ['x'] }), mockResponse());
+
+    const [, update] = findByIdAndUpdate.mock.calls[0];
+    expect(update).toEqual({ title: 'Studio rénové', updatedAt: expect.any(Date) });
+  });
+
+  it('alerte les recherches enregistrées quand un critère de recherche change', async () => {
+    loadHousing({ price: 75000 });
+
+    await updateHousing(request({ price: 75000 }), mockResponse());
+
+    expect(savedSearchService.notifySavedSearches).toHaveBeenCalledWith(
+      expect.objectContaining({ price: 75000 }),
+      { reason: 'updated' }
+    );
+  });
+
+  it('n\'alerte pas pour une modification sans effet sur les recherches', async () => {
+    loadHousing({ title: 'Studio rénové' });
+
+    await updateHousing(request({ title: 'Studio rénové' }), mockResponse());
+
+    expect(savedSearchService.notifySavedSearches).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
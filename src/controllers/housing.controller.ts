@@ -1,56 +1,126 @@
 // src/controllers/housing.controller.ts
 import { Request, Response } from 'express';
-import { Housing } from '../models';
+import mongoose from 'mongoose';
+import { Housing, Establishment, VisitRequest, Conversation } from '../models';
+import { IHousing } from '../models/Housing';
+import { sendExport, EXPORT_FORMATS, ExportColumn, ExportFormat } from '../services/export.service';
+import { findNear } from '../services/geo.service';
+import { buildHousingQuery, parseSearchQuery, textSearch } from '../services/search.service';
+import { notifySavedSearches } from '../services/savedSearch.service';
+import { clearSuggestionCache } from '../services/suggestion.service';
+import { parseNearQuery, parseRadiusKm, estimateTravel, fromGeoPoint, NEAR_QUERY_ERROR } from '../utils/geo';
+
+// Rayon par défaut de la recherche "logements près de mon école"
+const DEFAULT_NEARBY_RADIUS_KM = 10;
+
+// Seul le propriétaire de l'annonce ou un admin peut la modifier
+const canManageHousing = (housing: IHousing, user: any) =>
+  user?.role === 'admin' || (!!housing.owner && housing.owner.toString() === user?.id);
+
+const forbiddenHousingResponse = (res: Response) =>
+  res.status(403).json({
+    success: false,
+    message: 'Vous n\'êtes pas autorisé à modifier ce logement'
+  });
+
+// Champs filtrés par les recherches enregistrées
+const SAVED_SEARCH_FIELDS = ['type', 'location', 'price', 'bedrooms'];
+
+// Champs modifiables par PUT /api/housing/:id
+const HOUSING_UPDATABLE_FIELDS = [
+  'title',
+  'description',
+  'type',
+  'location',
+  'neighborhood',
+  'price',
+  'bedrooms',
+  'bathrooms',
+  'amenities',
+  'images',
+  'contact',
+  'features',
+  'coordinates'
+];
+
+const HOUSING_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'ID', value: doc => String(doc._id) },
+  { header: 'Titre', value: doc => doc.title },
+  { header: 'Type', value: doc => doc.type },
+  { header: 'Ville', value: doc => doc.location },
+  { header: 'Quartier', value: doc => doc.neighborhood },
+  { header: 'Prix (FCFA)', value: doc => doc.price },
+  { header: 'Chambres', value: doc => doc.bedrooms },
+  { header: 'Salles de bain', value: doc => doc.bathrooms },
+  { header: 'Équipements', value: doc => doc.amenities || [] },
+  { header: 'Meublé', value: doc => Boolean(doc.features?.hasFurniture) },
+  { header: 'Internet', value: doc => Boolean(doc.features?.hasInternet) },
+  { header: 'Cuisine', value: doc => Boolean(doc.features?.hasKitchen) },
+  { header: 'Disponible', value: doc => Boolean(doc.isAvailable) },
+  { header: 'Contact', value: doc => doc.contact?.name },
+  { header: 'Téléphone', value: doc => doc.contact?.phone },
+  { header: 'Email', value: doc => doc.contact?.email },
+  { header: 'Description', value: doc => doc.description },
+  { header: 'Latitude', value: doc => doc.coordinates?.lat },
+  { header: 'Longitude', value: doc => doc.coordinates?.lng },
+  { header: 'Créé le', value: doc => doc.createdAt },
+  { header: 'Mis à jour le', value: doc => doc.updatedAt }
+];
+
+const buildHousingSort = (params: any) => {
+  const { sort = 'createdAt', order = 'desc' } = params;
+  const sortOptions: any = {};
+  sortOptions[sort as string] = order === 'asc' ? 1 : -1;
+  return sortOptions;
+};
 
 // @desc    Récupérer tous les logements
+//          ?near=lat,lng&radiusKm=5 : logements autour d'un point, triés par distance
+//          (sauf tri explicite via `sort`)
 // @route   GET /api/housing
 // @access  Public
 export const getAllHousing = async (req: Request, res: Response) => {
   try {
     const { 
-      type, 
-      location, 
-      minPrice, 
-      maxPrice, 
-      bedrooms,
-      available,
       page = 1, 
-      limit = 12,
-      sort = 'createdAt',
-      order = 'desc'
+      limit = 12
     } = req.query;
     
-    // Construction de la requête de filtrage
-    const query: any = {};
-    
-    if (type) query.type = type;
-    if (location) query.location = { $regex: location, $options: 'i' };
-    if (minPrice || maxPrice) {
-      query.price = {};
-      if (minPrice) query.price.$gte = Number(minPrice);
-      if (maxPrice) query.price.$lte = Number(maxPrice);
-    }
-    if (bedrooms) query.bedrooms = Number(bedrooms);
-    if (available !== undefined) {
-      query.isAvailable = available === 'true';
+    const near = parseNearQuery(req.query.near, req.query.radiusKm);
+    if (near === null) {
+      return res.status(400).json({
+        success: false,
+        message: NEAR_QUERY_ERROR
+      });
     }
     
+    // Construction de la requête de filtrage
+    const query = buildHousingQuery(req.query);
+    
     // Options de tri
-    const sortOptions: any = {};
-    sortOptions[sort as string] = order === 'asc' ? 1 : -1;
+    const sortOptions = buildHousingSort(req.query);
+    const sortByDistance = !req.query.sort || req.query.sort === 'distance';
     
     // Pagination
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
     
-    // Exécution des requêtes
-    const [housing, total, minPriceResult, maxPriceResult] = await Promise.all([
-      Housing.find(query)
-        .sort(sortOptions)
-        .skip(skip)
-        .limit(limitNum),
-      Housing.countDocuments(query),
+    // Exécution des requêtes (recherche par proximité : chaque résultat porte sa distance en km)
+    const [{ data: housing, total }, minPriceResult, maxPriceResult] = await Promise.all([
+      near
+        ? findNear(Housing, near, query, {
+            sort: sortByDistance ? undefined : sortOptions,
+            skip,
+            limit: limitNum
+          })
+        : Promise.all([
+            Housing.find(query)
+              .sort(sortOptions)
+              .skip(skip)
+              .limit(limitNum),
+            Housing.countDocuments(query)
+          ]).then(([data, total]) => ({ data, total })),
       Housing.findOne().sort({ price: 1 }).select('price'),
       Housing.findOne().sort({ price: -1 }).select('price')
     ]);
@@ -61,6 +131,7 @@ export const getAllHousing = async (req: Request, res: Response) => {
       total,
       totalPages: Math.ceil(total / limitNum),
       currentPage: pageNum,
+      ...(near ? { near } : {}),
       priceRange: {
         min: minPriceResult?.price || 0,
         max: maxPriceResult?.price || 0
@@ -82,6 +153,85 @@ export const getAllHousing = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Exporter les logements (mêmes filtres que la liste) en CSV, XLSX ou JSON
+// @route   GET /api/housing/export?format=csv|xlsx|json
+// @access  Private/Admin
+export const exportHousing = async (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || 'csv').toLowerCase() as ExportFormat;
+    
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format invalide. Formats valides: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+    
+    const cursor = Housing.find(buildHousingQuery(req.query))
+      .sort(buildHousingSort(req.query))
+      .lean()
+      .cursor();
+    
+    await sendExport(res, format, cursor, HOUSING_EXPORT_COLUMNS, {
+      filename: 'logements',
+      sheetName: 'Logements'
+    });
+    
+  } catch (error) {
+    console.error('Erreur exportHousing:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'export des logements'
+    });
+  }
+};
+
+// @desc    Récupérer les logements du propriétaire connecté
+// @route   GET /api/housing/mine
+// @access  Private/Landlord ou Admin
+export const getMyHousing = async (req: Request, res: Response) => {
+  try {
+    const { available, page = 1, limit = 12 } = req.query;
+    
+    const query: any = { owner: (req as any).user.id };
+    if (available !== undefined) {
+      query.isAvailable = available === 'true';
+    }
+    
+    // Pagination
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+    
+    const [housing, total] = await Promise.all([
+      Housing.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Housing.countDocuments(query)
+    ]);
+    
+    res.json({
+      success: true,
+      count: housing.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: housing
+    });
+    
+  } catch (error) {
+    console.error('Erreur getMyHousing:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération de vos logements'
+    });
+  }
+};
+
 // @desc    Récupérer un logement par ID
 // @route   GET /api/housing/:id
 // @access  Public
@@ -121,6 +271,88 @@ export const getHousingById = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Logements disponibles autour d'un établissement, du plus proche au plus éloigné
+//          ex: ?radiusKm=5&maxPrice=100000&type=studio&bedrooms=1
+// @route   GET /api/establishments/:id/nearby-housing
+// @access  Public
+export const getHousingNearEstablishment = async (req: Request, res: Response) => {
+  try {
+    const { page = 1, limit = 12 } = req.query;
+    
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID d\'établissement invalide'
+      });
+    }
+    
+    const radiusKm = parseRadiusKm(req.query.radiusKm);
+    if (radiusKm === null) {
+      return res.status(400).json({
+        success: false,
+        message: NEAR_QUERY_ERROR
+      });
+    }
+    
+    const establishment = await Establishment.findById(req.params.id).select('name location coordinates geoLocation');
+    if (!establishment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+    
+    const position = fromGeoPoint(establishment.geoLocation);
+    if (!position) {
+      return res.status(422).json({
+        success: false,
+        message: 'La position de cet établissement n\'est pas renseignée'
+      });
+    }
+    
+    // Filtres habituels (prix, type, chambres) ; seuls les logements disponibles sont proposés
+    const { location, available, ...filters } = req.query;
+    const query = { ...buildHousingQuery(filters), isAvailable: true };
+    
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 12));
+    const skip = (pageNum - 1) * limitNum;
+    
+    const near = {
+      ...position,
+      radiusKm: radiusKm ?? DEFAULT_NEARBY_RADIUS_KM
+    };
+    const { data, total } = await findNear(Housing, near, query, { skip, limit: limitNum });
+    
+    res.json({
+      success: true,
+      count: data.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      establishment: {
+        _id: establishment._id,
+        name: establishment.name,
+        location: establishment.location,
+        coordinates: establishment.coordinates
+      },
+      radiusKm: near.radiusKm,
+      data: data.map(housing => ({
+        ...housing,
+        travel: estimateTravel(housing.distance)
+      }))
+    });
+    
+  } catch (error) {
+    console.error('Erreur getHousingNearEstablishment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la recherche de logements à proximité'
+    });
+  }
+};
+
 // @desc    Créer un nouveau logement
 // @route   POST /api/housing
 // @access  Private/Landlord ou Admin
@@ -137,9 +369,13 @@ export const createHousing = async (req: Request, res: Response) => {
       });
     }
     
+    const user = (req as any).user;
+    
     // Ajout des valeurs par défaut
     const housingData = {
       ...req.body,
+      // Le propriétaire est l'utilisateur connecté (un admin peut publier pour un landlord)
+      owner: user.role === 'admin' && req.body.owner ? req.body.owner : user.id,
       isAvailable: req.body.isAvailable !== undefined ? req.body.isAvailable : true,
       features: {
         hasFurniture: req.body.features?.hasFurniture || false,
@@ -151,6 +387,10 @@ export const createHousing = async (req: Request, res: Response) => {
     };
     
     const housing = await Housing.create(housingData);
+    clearSuggestionCache();
+    
+    // Alertes des recherches enregistrées, sans retarder la réponse
+    notifySavedSearches(housing).catch(error => console.error('Erreur notifySavedSearches:', error));
     
     res.status(201).json({
       success: true,
@@ -203,18 +443,43 @@ export const updateHousing = async (req: Request, res: Response) => {
       }
     }
     
+    const existing = await Housing.findById(id);
+    
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Logement non trouvé'
+      });
+    }
+    
+    const user = (req as any).user;
+    if (!canManageHousing(existing, user)) {
+      return forbiddenHousingResponse(res);
+    }
+    
+    // Seuls les champs de l'annonce sont modifiables ici : la disponibilité passe par
+    // PATCH /:id/availability, et seul un admin peut transférer une annonce à un autre propriétaire
+    const updates: Record<string, any> = {};
+    HOUSING_UPDATABLE_FIELDS
+      .filter(field => req.body[field] !== undefined)
+      .forEach(field => { updates[field] = req.body[field]; });
+    if (user.role === 'admin' && req.body.owner) {
+      updates.owner = req.body.owner;
+    }
+    
     const housing = await Housing.findByIdAndUpdate(
       id,
-      { ...req.body, updatedAt: new Date() },
+      { ...updates, updatedAt: new Date() },
       { new: true, runValidators: true }
     );
     
+    if (housing) clearSuggestionCache();
     
-    if (!housing) {
-      return res.status(404).json({
-        success: false,
-        message: 'Logement non trouvé'
-      });
+    // Annonce modifiée sur un critère de recherche : alerter les recherches qu'elle rejoint
+    const matchChanged = housing && SAVED_SEARCH_FIELDS.some(field =>
+      String(existing.get(field)) !== String(housing.get(field)));
+    if (housing && matchChanged) {
+      notifySavedSearches(housing, { reason: 'updated' }).catch(error => console.error('Erreur notifySavedSearches:', error));
     }
     
     res.json({
@@ -246,7 +511,7 @@ export const updateHousing = async (req: Request, res: Response) => {
 // @access  Private/Landlord ou Admin
 export const deleteHousing = async (req: Request, res: Response) => {
   try {
-    const housing = await Housing.findByIdAndDelete(req.params.id);
+    const housing = await Housing.findById(req.params.id);
     
     if (!housing) {
       return res.status(404).json({
@@ -255,6 +520,19 @@ export const deleteHousing = async (req: Request, res: Response) => {
       });
     }
     
+    if (!canManageHousing(housing, (req as any).user)) {
+      return forbiddenHousingResponse(res);
+    }
+    
+    await housing.deleteOne();
+    clearSuggestionCache();
+    await VisitRequest.deleteMany({ housing: housing._id });
+    // Les conversations sont conservées pour la modération, mais plus aucun message ne peut y être envoyé
+    await Conversation.updateMany(
+      { housing: housing._id, status: 'open' },
+      { status: 'closed', closedReason: 'Annonce supprimée' }
+    );
+    
     res.json({
       success: true,
       message: 'Logement supprimé avec succès'
@@ -269,28 +547,43 @@ export const deleteHousing = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Rechercher des logements
+// @desc    Rechercher des logements disponibles (plein texte, trié par pertinence)
+//          ex: /search/studio%20meuble%20mermoz?page=2&limit=10
 // @route   GET /api/housing/search/:keyword
 // @access  Public
 export const searchHousing = async (req: Request, res: Response) => {
   try {
-    const keyword = req.params.keyword;
-    
-    const housing = await Housing.find({
-      $or: [
-        { title: { $regex: keyword, $options: 'i' } },
-        { description: { $regex: keyword, $options: 'i' } },
-        { location: { $regex: keyword, $options: 'i' } },
-        { neighborhood: { $regex: keyword, $options: 'i' } },
-        { amenities: { $regex: keyword, $options: 'i' } }
-      ],
-      isAvailable: true
-    }).limit(20);
+    const { page = 1, limit = 20 } = req.query;
+    
+    const search = parseSearchQuery(req.params.keyword);
+    if (!search) {
+      return res.status(400).json({
+        success: false,
+        message: 'Terme de recherche requis'
+      });
+    }
+    
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+    
+    const { data, total } = await textSearch(Housing, search, {
+      filter: { isAvailable: true },
+      skip,
+      limit: limitNum,
+      highlightFields: ['title', 'neighborhood', 'location', 'amenities', 'description']
+    });
     
     res.json({
       success: true,
-      count: housing.length,
-      data: housing
+      count: data.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      query: search.text,
+      corrections: search.corrections,
+      data
     });
     
   } catch (error) {
@@ -316,11 +609,7 @@ export const updateAvailability = async (req: Request, res: Response) => {
       });
     }
     
-    const housing = await Housing.findByIdAndUpdate(
-      req.params.id,
-      { isAvailable },
-      { new: true }
-    );
+    const housing = await Housing.findById(req.params.id);
     
     if (!housing) {
       return res.status(404).json({
@@ -329,6 +618,20 @@ export const updateAvailability = async (req: Request, res: Response) => {
       });
     }
     
+    if (!canManageHousing(housing, (req as any).user)) {
+      return forbiddenHousingResponse(res);
+    }
+    
+    const wasAvailable = housing.isAvailable;
+    housing.isAvailable = isAvailable;
+    await housing.save();
+    clearSuggestionCache();
+    
+    // Logement de nouveau disponible : alertes des recherches enregistrées
+    if (!wasAvailable && housing.isAvailable) {
+      notifySavedSearches(housing, { reason: 'available_again' }).catch(error => console.error('Erreur notifySavedSearches:', error));
+    }
+    
     res.json({
       success: true,
       data: housing,
@@ -0,0 +1,340 @@
+// src/controllers/landlordApplication.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { LandlordApplication, User } from '../models';
+import { LANDLORD_DOCUMENTS_BUCKET } from '../models/LandlordApplication';
+import { storeFiles, streamFile } from '../services/storage.service';
+import { recordAudit } from '../services/audit.service';
+import { sendLandlordApplicationDecisionEmail } from '../services/mail.service';
+
+const ID_TYPES = ['cni', 'passport', 'residence_permit'];
+
+// @desc    Déposer une demande de compte propriétaire
+// @route   POST /api/landlord-applications
+// @access  Private
+export const submitLandlordApplication = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const files = (req.files as Express.Multer.File[]) || [];
+    const { fullName, idType, idNumber, phone, address, message } = req.body;
+
+    if ((req as any).user.role !== 'student') {
+      return res.status(400).json({
+        success: false,
+        message: 'Seuls les comptes étudiants peuvent demander le statut de propriétaire'
+      });
+    }
+
+    // Validation des données d'identité
+    const missingFields = ['fullName', 'idType', 'idNumber', 'phone', 'address']
+      .filter(field => !req.body[field]);
+    if (missingFields.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Champs manquants: ${missingFields.join(', ')}`
+      });
+    }
+
+    if (!ID_TYPES.includes(idType)) {
+      return res.status(400).json({
+        success: false,
+        message: `Type de pièce invalide. Types valides: ${ID_TYPES.join(', ')}`
+      });
+    }
+
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Au moins un justificatif est requis (pièce d\'identité, titre de propriété...)'
+      });
+    }
+
+    const pending = await LandlordApplication.exists({ user: userId, status: 'pending' });
+    if (pending) {
+      return res.status(400).json({
+        success: false,
+        message: 'Une demande est déjà en cours d\'examen'
+      });
+    }
+
+    const documents = await storeFiles(LANDLORD_DOCUMENTS_BUCKET, files, { userId });
+
+    const application = await LandlordApplication.create({
+      user: userId,
+      identity: { fullName, idType, idNumber, phone, address },
+      message,
+      documents
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Demande envoyée, elle sera examinée par un administrateur',
+      data: application
+    });
+
+  } catch (error: any) {
+    console.error('Erreur submitLandlordApplication:', error);
+
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map((err: any) => err.message);
+      return res.status(400).json({
+        success: false,
+        message: 'Erreur de validation',
+        errors: messages
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'envoi de la demande'
+    });
+  }
+};
+
+// @desc    Consulter ses propres demandes et leur statut
+// @route   GET /api/landlord-applications/me
+// @access  Private
+export const getMyLandlordApplications = async (req: Request, res: Response) => {
+  try {
+    const applications = await LandlordApplication.find({ user: (req as any).user.id })
+      .select('-reviewedBy')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: applications.length,
+      latestStatus: applications[0]?.status || null,
+      data: applications
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyLandlordApplications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    File d'attente des demandes (admin)
+// @route   GET /api/landlord-applications
+// @access  Private/Admin
+export const getLandlordApplications = async (req: Request, res: Response) => {
+  try {
+    const { status = 'pending', page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status !== 'all') query.status = status;
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    // Les demandes les plus anciennes sont traitées en premier
+    const [applications, total] = await Promise.all([
+      LandlordApplication.find(query)
+        .populate('user', 'email firstName lastName phone isVerified')
+        .populate('reviewedBy', 'email firstName lastName')
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(limitNum),
+      LandlordApplication.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: applications.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: applications
+    });
+
+  } catch (error) {
+    console.error('Erreur getLandlordApplications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Détail d'une demande
+// @route   GET /api/landlord-applications/:id
+// @access  Private (demandeur ou admin)
+export const getLandlordApplicationById = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de demande invalide'
+      });
+    }
+
+    const application = await LandlordApplication.findById(req.params.id)
+      .populate('user', 'email firstName lastName phone isVerified');
+
+    const user = (req as any).user;
+    if (!application || (user.role !== 'admin' && String((application.user as any)._id) !== user.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Demande non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: application
+    });
+
+  } catch (error) {
+    console.error('Erreur getLandlordApplicationById:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Télécharger un justificatif
+// @route   GET /api/landlord-applications/:id/documents/:fileId
+// @access  Private (demandeur ou admin)
+export const getLandlordApplicationDocument = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de demande invalide'
+      });
+    }
+
+    const application = await LandlordApplication.findById(req.params.id);
+    const user = (req as any).user;
+
+    if (!application || (user.role !== 'admin' && application.user.toString() !== user.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Demande non trouvée'
+      });
+    }
+
+    if (!application.documents.some(doc => doc.fileId === req.params.fileId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document non trouvé'
+      });
+    }
+
+    await streamFile(LANDLORD_DOCUMENTS_BUCKET, req.params.fileId, res);
+
+  } catch (error) {
+    console.error('Erreur getLandlordApplicationDocument:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// Statuer sur une demande en attente (approbation ou refus)
+const reviewApplication = async (req: Request, res: Response, approved: boolean) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(400).json({
+      success: false,
+      message: 'ID de demande invalide'
+    });
+  }
+
+  const { reason } = req.body;
+  if (!approved && !reason) {
+    return res.status(400).json({
+      success: false,
+      message: 'Un motif de refus est requis'
+    });
+  }
+
+  const application = await LandlordApplication.findById(req.params.id);
+  if (!application) {
+    return res.status(404).json({
+      success: false,
+      message: 'Demande non trouvée'
+    });
+  }
+
+  if (application.status !== 'pending') {
+    return res.status(400).json({
+      success: false,
+      message: `Cette demande a déjà été traitée (${application.status})`
+    });
+  }
+
+  const applicant = await User.findById(application.user);
+  if (!applicant) {
+    return res.status(404).json({
+      success: false,
+      message: 'Le demandeur n\'existe plus'
+    });
+  }
+
+  application.status = approved ? 'approved' : 'rejected';
+  application.reviewedBy = (req as any).user.id;
+  application.reviewedAt = new Date();
+  application.rejectionReason = approved ? undefined : reason;
+  await application.save();
+
+  if (approved && applicant.role === 'student') {
+    applicant.role = 'landlord';
+    await applicant.save();
+  }
+
+  await recordAudit(
+    req,
+    approved ? 'landlord_application.approved' : 'landlord_application.rejected',
+    'LandlordApplication',
+    String(application._id),
+    { user: String(applicant._id), reason }
+  );
+
+  try {
+    await sendLandlordApplicationDecisionEmail(applicant, approved, reason);
+  } catch (mailError) {
+    console.error('Erreur envoi email de décision:', mailError);
+  }
+
+  res.json({
+    success: true,
+    message: approved ? 'Demande approuvée, le compte est désormais propriétaire' : 'Demande refusée',
+    data: application
+  });
+};
+
+// @desc    Approuver une demande
+// @route   PATCH /api/landlord-applications/:id/approve
+// @access  Private/Admin
+export const approveLandlordApplication = async (req: Request, res: Response) => {
+  try {
+    await reviewApplication(req, res, true);
+  } catch (error) {
+    console.error('Erreur approveLandlordApplication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'approbation'
+    });
+  }
+};
+
+// @desc    Refuser une demande
+// @route   PATCH /api/landlord-applications/:id/reject
+// @access  Private/Admin
+export const rejectLandlordApplication = async (req: Request, res: Response) => {
+  try {
+    await reviewApplication(req, res, false);
+  } catch (error) {
+    console.error('Erreur rejectLandlordApplication:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors du refus'
+    });
+  }
+};
\ No newline at end of file
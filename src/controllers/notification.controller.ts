@@ -0,0 +1,141 @@
+// src/controllers/notification.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Notification } from '../models';
+
+const notificationNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Notification non trouvée'
+  });
+
+// @desc    Mes notifications, les plus récentes en premier
+//          ex: ?unread=true&page=1
+// @route   GET /api/notifications
+// @access  Private
+export const getMyNotifications = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { unread, page = 1, limit = 20 } = req.query;
+
+    const query: any = { user: userId };
+    if (unread === 'true') query.readAt = null;
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Notification.countDocuments(query),
+      Notification.countDocuments({ user: userId, readAt: null })
+    ]);
+
+    res.json({
+      success: true,
+      count: notifications.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      unreadCount,
+      data: notifications
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyNotifications:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des notifications'
+    });
+  }
+};
+
+// @desc    Marquer toutes ses notifications comme lues
+// @route   PATCH /api/notifications/read-all
+// @access  Private
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    const result = await Notification.updateMany(
+      { user: (req as any).user.id, readAt: null },
+      { readAt: new Date() }
+    );
+
+    res.json({
+      success: true,
+      data: { updated: result.modifiedCount },
+      message: 'Notifications marquées comme lues'
+    });
+
+  } catch (error) {
+    console.error('Erreur markAllNotificationsRead:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Marquer une notification comme lue
+// @route   PATCH /api/notifications/:id/read
+// @access  Private
+export const markNotificationRead = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return notificationNotFoundResponse(res);
+    }
+
+    const notification = await Notification.findOne({ _id: req.params.id, user: (req as any).user.id });
+    if (!notification) {
+      return notificationNotFoundResponse(res);
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({
+      success: true,
+      data: notification
+    });
+
+  } catch (error) {
+    console.error('Erreur markNotificationRead:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Supprimer une notification
+// @route   DELETE /api/notifications/:id
+// @access  Private
+export const deleteNotification = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return notificationNotFoundResponse(res);
+    }
+
+    const notification = await Notification.findOneAndDelete({ _id: req.params.id, user: (req as any).user.id });
+    if (!notification) {
+      return notificationNotFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification supprimée'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteNotification:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,360 @@
+// src/controllers/program.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Program, Establishment, Scholarship, AdmissionEvent } from '../models';
+import { PROGRAM_DEGREES } from '../models/Program';
+import { clearSuggestionCache } from '../services/suggestion.service';
+import { accentInsensitivePattern } from '../utils/text';
+
+// Champs modifiables d'une formation
+const PROGRAM_FIELDS = [
+  'name', 'degree', 'field', 'language', 'durationYears',
+  'annualTuition', 'admissionRequirements', 'description', 'isActive'
+];
+
+const pickProgramFields = (body: any) => {
+  const data: any = {};
+  PROGRAM_FIELDS.forEach(field => {
+    if (body[field] !== undefined) data[field] = body[field];
+  });
+  return data;
+};
+
+// Garder la liste historique `Establishment.programs` (noms) cohérente avec le catalogue
+const addProgramName = (establishmentId: any, name: string) =>
+  Establishment.updateOne({ _id: establishmentId }, { $addToSet: { programs: name } });
+
+const removeProgramNameIfUnused = async (establishmentId: any, name: string) => {
+  const stillUsed = await Program.exists({ establishment: establishmentId, name });
+  if (!stillUsed) {
+    await Establishment.updateOne({ _id: establishmentId }, { $pull: { programs: name } });
+  }
+};
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.code === 11000) {
+    return res.status(400).json({
+      success: false,
+      message: 'Cette formation existe déjà pour cet établissement'
+    });
+  }
+
+  if (error.name === 'ValidationError') {
+    const messages = Object.values(error.errors).map((err: any) => err.message);
+    return res.status(400).json({
+      success: false,
+      message: 'Erreur de validation',
+      errors: messages
+    });
+  }
+
+  return null;
+};
+
+// @desc    Lister les formations d'un établissement
+// @route   GET /api/establishments/:id/programs
+// @access  Public
+export const getEstablishmentPrograms = async (req: Request, res: Response) => {
+  try {
+    const { degree, includeInactive } = req.query;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID d\'établissement invalide'
+      });
+    }
+
+    const query: any = { establishment: req.params.id };
+    if (degree) query.degree = degree;
+    if (includeInactive !== 'true') query.isActive = true;
+
+    const programs = await Program.find(query).sort({ degree: 1, name: 1 });
+
+    res.json({
+      success: true,
+      count: programs.length,
+      data: programs
+    });
+
+  } catch (error) {
+    console.error('Erreur getEstablishmentPrograms:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des formations'
+    });
+  }
+};
+
+// @desc    Ajouter une formation à un établissement
+// @route   POST /api/establishments/:id/programs
+// @access  Private/Admin ou personnel de l'établissement
+export const createProgram = async (req: Request, res: Response) => {
+  try {
+    const establishment = await Establishment.findById(req.params.id);
+    if (!establishment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+
+    const requiredFields = ['name', 'degree', 'field', 'durationYears', 'annualTuition'];
+    const missingFields = requiredFields.filter(field => req.body[field] === undefined || req.body[field] === '');
+
+    if (missingFields.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Champs manquants: ${missingFields.join(', ')}`
+      });
+    }
+
+    const program = await Program.create({
+      ...pickProgramFields(req.body),
+      establishment: establishment._id
+    });
+
+    await addProgramName(establishment._id, program.name);
+    clearSuggestionCache();
+
+    res.status(201).json({
+      success: true,
+      data: program,
+      message: 'Formation créée avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createProgram:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la création de la formation'
+    });
+  }
+};
+
+// @desc    Mettre à jour une formation
+// @route   PUT /api/establishments/:id/programs/:programId
+// @access  Private/Admin ou personnel de l'établissement
+export const updateProgram = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.programId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de formation invalide'
+      });
+    }
+
+    const program = await Program.findOne({ _id: req.params.programId, establishment: req.params.id });
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        message: 'Formation non trouvée'
+      });
+    }
+
+    const previousName = program.name;
+    program.set(pickProgramFields(req.body));
+    await program.save();
+    clearSuggestionCache();
+
+    if (program.name !== previousName) {
+      await addProgramName(program.establishment, program.name);
+      await removeProgramNameIfUnused(program.establishment, previousName);
+    }
+
+    res.json({
+      success: true,
+      data: program,
+      message: 'Formation mise à jour avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateProgram:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour de la formation'
+    });
+  }
+};
+
+// @desc    Supprimer une formation
+// @route   DELETE /api/establishments/:id/programs/:programId
+// @access  Private/Admin ou personnel de l'établissement
+export const deleteProgram = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.programId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de formation invalide'
+      });
+    }
+
+    const program = await Program.findOneAndDelete({ _id: req.params.programId, establishment: req.params.id });
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        message: 'Formation non trouvée'
+      });
+    }
+
+    await removeProgramNameIfUnused(program.establishment, program.name);
+    await Scholarship.updateMany({ programs: program._id }, { $pull: { programs: program._id } });
+    await AdmissionEvent.updateMany({ program: program._id }, { $unset: { program: 1 } });
+    clearSuggestionCache();
+
+    res.json({
+      success: true,
+      message: 'Formation supprimée avec succès',
+      data: {
+        id: program._id,
+        name: program.name
+      }
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteProgram:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Rechercher des formations dans tous les établissements
+//          ex: ?degree=Master&field=informatique&maxTuition=1000000&location=Dakar
+// @route   GET /api/programs
+// @access  Public
+export const searchPrograms = async (req: Request, res: Response) => {
+  try {
+    const {
+      q,
+      degree,
+      field,
+      language,
+      minTuition,
+      maxTuition,
+      maxDuration,
+      location,
+      establishmentType,
+      cames,
+      sort = 'tuition',
+      page = 1,
+      limit = 12
+    } = req.query;
+
+    const query: any = { isActive: true };
+
+    if (degree) {
+      const degrees = String(degree).split(',');
+      const invalid = degrees.filter(value => !PROGRAM_DEGREES.includes(value as any));
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Diplôme invalide. Diplômes valides: ${PROGRAM_DEGREES.join(', ')}`
+        });
+      }
+      query.degree = { $in: degrees };
+    }
+    if (field) query.field = { $regex: accentInsensitivePattern(String(field)), $options: 'i' };
+    if (language) query.language = { $regex: accentInsensitivePattern(String(language)), $options: 'i' };
+    if (q) {
+      const pattern = accentInsensitivePattern(String(q));
+      query.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { field: { $regex: pattern, $options: 'i' } }
+      ];
+    }
+    if (minTuition || maxTuition) {
+      query.annualTuition = {};
+      if (minTuition) query.annualTuition.$gte = Number(minTuition);
+      if (maxTuition) query.annualTuition.$lte = Number(maxTuition);
+    }
+    if (maxDuration) query.durationYears = { $lte: Number(maxDuration) };
+
+    // Filtres portant sur l'établissement : on restreint d'abord la liste des établissements
+    if (location || establishmentType || cames !== undefined) {
+      const establishmentQuery: any = {};
+      if (location) establishmentQuery.location = { $regex: accentInsensitivePattern(String(location)), $options: 'i' };
+      if (establishmentType) establishmentQuery.type = establishmentType;
+      if (cames !== undefined) establishmentQuery.isCAMESRecognized = cames === 'true';
+
+      const establishmentIds = await Establishment.find(establishmentQuery).distinct('_id');
+      query.establishment = { $in: establishmentIds };
+    }
+
+    const sortOptions: Record<string, any> = {
+      tuition: { annualTuition: 1 },
+      '-tuition': { annualTuition: -1 },
+      duration: { durationYears: 1 },
+      name: { name: 1 }
+    };
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 12));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [programs, total] = await Promise.all([
+      Program.find(query)
+        .populate('establishment', 'name type location isCAMESRecognized rating')
+        .sort(sortOptions[sort as string] || sortOptions.tuition)
+        .skip(skip)
+        .limit(limitNum),
+      Program.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: programs.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: programs
+    });
+
+  } catch (error) {
+    console.error('Erreur searchPrograms:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la recherche de formations'
+    });
+  }
+};
+
+// @desc    Récupérer une formation par ID
+// @route   GET /api/programs/:id
+// @access  Public
+export const getProgramById = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de formation invalide'
+      });
+    }
+
+    const program = await Program.findById(req.params.id)
+      .populate('establishment', 'name type location isCAMESRecognized rating contact');
+
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        message: 'Formation non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: program
+    });
+
+  } catch (error) {
+    console.error('Erreur getProgramById:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
\ No newline at end of file
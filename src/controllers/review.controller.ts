@@ -0,0 +1,380 @@
+// src/controllers/review.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Review, Establishment } from '../models';
+import { REVIEW_CRITERIA } from '../models/Review';
+import { recomputeEstablishmentRating } from '../services/rating.service';
+import { recordAudit } from '../services/audit.service';
+
+// Vérifier que chaque critère est une note entière entre 1 et 5
+const validateScores = (scores: any) => {
+  if (!scores || typeof scores !== 'object') return false;
+  return REVIEW_CRITERIA.every(criterion => {
+    const value = Number(scores[criterion]);
+    return Number.isInteger(value) && value >= 1 && value <= 5;
+  });
+};
+
+const invalidScoresResponse = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    message: `Notes requises (entiers de 1 à 5) pour: ${REVIEW_CRITERIA.join(', ')}`
+  });
+
+const reviewNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Avis non trouvé'
+  });
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError') return null;
+  const messages = Object.values(error.errors).map((err: any) => err.message);
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+// @desc    Lister les avis publiés d'un établissement
+// @route   GET /api/establishments/:id/reviews
+// @access  Public
+export const getEstablishmentReviews = async (req: Request, res: Response) => {
+  try {
+    const { sort = 'recent', page = 1, limit = 10 } = req.query;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID d\'établissement invalide'
+      });
+    }
+
+    const establishment = await Establishment.findById(req.params.id).select('rating reviewsCount ratingBreakdown');
+    if (!establishment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+
+    const query = { establishment: establishment._id, status: 'published' };
+
+    const sortOptions: Record<string, any> = {
+      recent: { createdAt: -1 },
+      best: { overall: -1, createdAt: -1 },
+      worst: { overall: 1, createdAt: -1 }
+    };
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 10));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [reviews, total] = await Promise.all([
+      Review.find(query)
+        .populate('user', 'firstName nationality')
+        .select('-moderatedBy -moderationReason -moderatedAt')
+        .sort(sortOptions[sort as string] || sortOptions.recent)
+        .skip(skip)
+        .limit(limitNum),
+      Review.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: reviews.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      rating: {
+        overall: establishment.rating,
+        reviewsCount: establishment.reviewsCount,
+        breakdown: establishment.ratingBreakdown
+      },
+      data: reviews
+    });
+
+  } catch (error) {
+    console.error('Erreur getEstablishmentReviews:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des avis'
+    });
+  }
+};
+
+// @desc    Publier un avis sur un établissement
+// @route   POST /api/establishments/:id/reviews
+// @access  Private/Student
+export const createReview = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { scores, title, comment } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id) || !(await Establishment.exists({ _id: req.params.id }))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Établissement non trouvé'
+      });
+    }
+
+    if (!validateScores(scores)) {
+      return invalidScoresResponse(res);
+    }
+
+    const existing = await Review.exists({ establishment: req.params.id, user: userId });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà donné votre avis sur cet établissement, modifiez-le plutôt'
+      });
+    }
+
+    const review = await Review.create({
+      establishment: req.params.id,
+      user: userId,
+      scores,
+      title,
+      comment
+    });
+
+    await recomputeEstablishmentRating(req.params.id);
+
+    res.status(201).json({
+      success: true,
+      data: review,
+      message: 'Avis publié avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createReview:', error);
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà donné votre avis sur cet établissement'
+      });
+    }
+    if (validationErrorResponse(res, error)) return;
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la publication de l\'avis'
+    });
+  }
+};
+
+// @desc    Récupérer ses propres avis
+// @route   GET /api/reviews/mine
+// @access  Private
+export const getMyReviews = async (req: Request, res: Response) => {
+  try {
+    const reviews = await Review.find({ user: (req as any).user.id })
+      .populate('establishment', 'name location type')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: reviews.length,
+      data: reviews
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyReviews:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Modifier son avis
+// @route   PUT /api/reviews/:id
+// @access  Private (auteur)
+export const updateReview = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return reviewNotFoundResponse(res);
+    }
+
+    const review = await Review.findOne({ _id: req.params.id, user: (req as any).user.id });
+    if (!review) {
+      return reviewNotFoundResponse(res);
+    }
+
+    const { scores, title, comment } = req.body;
+
+    if (scores !== undefined) {
+      if (!validateScores(scores)) {
+        return invalidScoresResponse(res);
+      }
+      review.scores = scores;
+    }
+    if (title !== undefined) review.title = title;
+    if (comment !== undefined) review.comment = comment;
+
+    await review.save();
+    await recomputeEstablishmentRating(review.establishment);
+
+    res.json({
+      success: true,
+      data: review,
+      message: 'Avis mis à jour avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateReview:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour de l\'avis'
+    });
+  }
+};
+
+// @desc    Supprimer un avis
+// @route   DELETE /api/reviews/:id
+// @access  Private (auteur ou admin)
+export const deleteReview = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return reviewNotFoundResponse(res);
+    }
+
+    const user = (req as any).user;
+    const review = await Review.findById(req.params.id);
+
+    if (!review || (user.role !== 'admin' && review.user.toString() !== user.id)) {
+      return reviewNotFoundResponse(res);
+    }
+
+    await review.deleteOne();
+    await recomputeEstablishmentRating(review.establishment);
+
+    if (user.role === 'admin' && review.user.toString() !== user.id) {
+      await recordAudit(req, 'review.deleted', 'Review', String(review._id), {
+        establishment: String(review.establishment),
+        author: String(review.user)
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Avis supprimé avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteReview:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    File de modération des avis
+// @route   GET /api/reviews
+// @access  Private/Admin
+export const getReviewsForModeration = async (req: Request, res: Response) => {
+  try {
+    const { status, establishment, maxOverall, page = 1, limit = 20 } = req.query;
+
+    const query: any = {};
+    if (status) query.status = status;
+    if (establishment) query.establishment = establishment;
+    if (maxOverall) query.overall = { $lte: Number(maxOverall) };
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [reviews, total] = await Promise.all([
+      Review.find(query)
+        .populate('user', 'email firstName lastName')
+        .populate('establishment', 'name location')
+        .populate('moderatedBy', 'email firstName lastName')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Review.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: reviews.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      data: reviews
+    });
+
+  } catch (error) {
+    console.error('Erreur getReviewsForModeration:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Masquer ou republier un avis
+// @route   PATCH /api/reviews/:id/moderate
+// @access  Private/Admin
+export const moderateReview = async (req: Request, res: Response) => {
+  try {
+    const { status, reason } = req.body;
+
+    if (!['published', 'hidden'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Statut invalide. Statuts valides: published, hidden'
+      });
+    }
+
+    if (status === 'hidden' && !reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'Un motif est requis pour masquer un avis'
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return reviewNotFoundResponse(res);
+    }
+
+    const review = await Review.findById(req.params.id);
+    if (!review) {
+      return reviewNotFoundResponse(res);
+    }
+
+    const previousStatus = review.status;
+    review.status = status;
+    review.moderationReason = status === 'hidden' ? reason : undefined;
+    review.moderatedBy = (req as any).user.id;
+    review.moderatedAt = new Date();
+    await review.save();
+
+    // Un avis masqué ne compte plus dans la note
+    if (previousStatus !== status) {
+      await recomputeEstablishmentRating(review.establishment);
+    }
+
+    await recordAudit(req, `review.${status}`, 'Review', String(review._id), { reason });
+
+    res.json({
+      success: true,
+      data: review,
+      message: status === 'hidden' ? 'Avis masqué' : 'Avis republié'
+    });
+
+  } catch (error) {
+    console.error('Erreur moderateReview:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la modération'
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,248 @@
+// src/controllers/savedSearch.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Housing, SavedSearch } from '../models';
+import { buildHousingQuery } from '../services/search.service';
+
+const MAX_SEARCHES_PER_USER = 20;
+
+// Filtres de GET /api/housing pouvant être enregistrés
+const SAVED_SEARCH_FILTERS = ['type', 'location', 'minPrice', 'maxPrice', 'bedrooms'];
+
+// Champs internes au suivi des alertes, non renvoyés au client
+const INTERNAL_FIELDS = '-notifiedHousing -pendingDigest';
+
+// Comme dans la liste des logements, un filtre vide (ou à 0) est ignoré
+const pickFilters = (filters: any) => {
+  const data: any = {};
+  SAVED_SEARCH_FILTERS.forEach(field => {
+    if (filters?.[field]) data[field] = filters[field];
+  });
+  return data;
+};
+
+const searchNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Recherche enregistrée non trouvée'
+  });
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError' && error.name !== 'CastError') return null;
+  const messages = error.errors
+    ? Object.values(error.errors).map((err: any) => err.message)
+    : [error.message];
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+const duplicateNameResponse = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    message: 'Une recherche avec ce nom existe déjà'
+  });
+
+const findUserSearch = async (req: Request) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) return null;
+  return SavedSearch.findOne({ _id: req.params.id, user: (req as any).user.id });
+};
+
+// Une recherche sans email récapitulatif n'a plus de logements en attente
+const clearDigestIfNeeded = (search: any) => {
+  if (!['daily', 'weekly'].includes(search.emailFrequency)) search.pendingDigest = [];
+};
+
+// @desc    Mes recherches enregistrées
+// @route   GET /api/saved-searches
+// @access  Private
+export const getMySavedSearches = async (req: Request, res: Response) => {
+  try {
+    const searches = await SavedSearch.find({ user: (req as any).user.id })
+      .select(INTERNAL_FIELDS)
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      count: searches.length,
+      data: searches
+    });
+
+  } catch (error) {
+    console.error('Erreur getMySavedSearches:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Enregistrer une recherche de logements avec alertes
+//          body: { name, filters: { type, location, minPrice, maxPrice, bedrooms }, emailFrequency, alertsEnabled }
+// @route   POST /api/saved-searches
+// @access  Private
+export const createSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { name, filters, emailFrequency, alertsEnabled } = req.body;
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le nom de la recherche est requis'
+      });
+    }
+
+    const count = await SavedSearch.countDocuments({ user: userId });
+    if (count >= MAX_SEARCHES_PER_USER) {
+      return res.status(400).json({
+        success: false,
+        message: `Maximum ${MAX_SEARCHES_PER_USER} recherches enregistrées par utilisateur`
+      });
+    }
+
+    const search = await SavedSearch.create({
+      user: userId,
+      name,
+      filters: pickFilters(filters),
+      emailFrequency,
+      alertsEnabled
+    });
+
+    const data: any = search.toObject();
+    delete data.notifiedHousing;
+    delete data.pendingDigest;
+
+    res.status(201).json({
+      success: true,
+      data,
+      message: 'Recherche enregistrée : vous serez alerté des nouveaux logements correspondants'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createSavedSearch:', error);
+
+    if (error.code === 11000) return duplicateNameResponse(res);
+    if (validationErrorResponse(res, error)) return;
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'enregistrement de la recherche'
+    });
+  }
+};
+
+// @desc    Modifier une recherche (nom, filtres, alertes)
+// @route   PUT /api/saved-searches/:id
+// @access  Private
+export const updateSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const search = await findUserSearch(req);
+    if (!search) {
+      return searchNotFoundResponse(res);
+    }
+
+    const { name, filters, emailFrequency, alertsEnabled } = req.body;
+    if (name !== undefined) search.name = name;
+    if (filters !== undefined) search.set('filters', pickFilters(filters));
+    if (emailFrequency !== undefined) search.emailFrequency = emailFrequency;
+    if (alertsEnabled !== undefined) search.alertsEnabled = alertsEnabled;
+    clearDigestIfNeeded(search);
+
+    await search.save();
+
+    const data: any = search.toObject();
+    delete data.notifiedHousing;
+    delete data.pendingDigest;
+
+    res.json({
+      success: true,
+      data,
+      message: 'Recherche mise à jour avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateSavedSearch:', error);
+
+    if (error.code === 11000) return duplicateNameResponse(res);
+    if (validationErrorResponse(res, error)) return;
+
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour de la recherche'
+    });
+  }
+};
+
+// @desc    Supprimer une recherche (et ses alertes)
+// @route   DELETE /api/saved-searches/:id
+// @access  Private
+export const deleteSavedSearch = async (req: Request, res: Response) => {
+  try {
+    const search = await findUserSearch(req);
+    if (!search) {
+      return searchNotFoundResponse(res);
+    }
+
+    await search.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Recherche supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteSavedSearch:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Logements disponibles correspondant à une recherche enregistrée, les plus récents en premier
+// @route   GET /api/saved-searches/:id/results
+// @access  Private
+export const getSavedSearchResults = async (req: Request, res: Response) => {
+  try {
+    const search = await findUserSearch(req);
+    if (!search) {
+      return searchNotFoundResponse(res);
+    }
+
+    const { page = 1, limit = 12 } = req.query;
+    const query = buildHousingQuery({ ...search.toObject().filters, available: 'true' });
+
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 12));
+    const skip = (pageNum - 1) * limitNum;
+
+    const [housing, total] = await Promise.all([
+      Housing.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      Housing.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      count: housing.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
+      filters: search.filters,
+      data: housing
+    });
+
+  } catch (error) {
+    console.error('Erreur getSavedSearchResults:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des logements'
+    });
+  }
+};
\ No newline at end of file
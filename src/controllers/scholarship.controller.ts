@@ -0,0 +1,458 @@
+// src/controllers/scholarship.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Scholarship, Establishment, Program, User } from '../models';
+import { PROGRAM_DEGREES } from '../models/Program';
+import { accentInsensitivePattern } from '../utils/text';
+
+// Champs modifiables d'une bourse
+const SCHOLARSHIP_FIELDS = [
+  'title', 'provider', 'providerType', 'description', 'eligibleNationalities', 'levels', 'fields',
+  'amount', 'amountPeriod', 'coverage', 'deadline', 'applicationUrl', 'establishments', 'programs', 'isActive'
+];
+
+const pickScholarshipFields = (body: any) => {
+  const data: any = {};
+  SCHOLARSHIP_FIELDS.forEach(field => {
+    if (body[field] !== undefined) data[field] = body[field];
+  });
+  return data;
+};
+
+// Une liste d'éligibilité vide signifie "ouvert à tous"
+const openOrMatching = (field: string, condition: any) => ({
+  $or: [{ [field]: { $size: 0 } }, { [field]: condition }]
+});
+
+// Filtres communs à la recherche, au flux des échéances et aux bourses recommandées
+const buildScholarshipQuery = (params: any) => {
+  const { q, nationality, level, field, establishment, program, providerType, minAmount, includeExpired } = params;
+  const query: any = { isActive: true };
+  const conditions: any[] = [];
+
+  if (includeExpired !== 'true') query.deadline = { $gte: new Date() };
+  if (providerType) query.providerType = providerType;
+  if (minAmount) query.amount = { $gte: Number(minAmount) };
+
+  if (q) {
+    const pattern = accentInsensitivePattern(String(q));
+    conditions.push({
+      $or: [
+        { title: { $regex: pattern, $options: 'i' } },
+        { provider: { $regex: pattern, $options: 'i' } }
+      ]
+    });
+  }
+  if (nationality) {
+    conditions.push(openOrMatching('eligibleNationalities', {
+      $regex: `^${accentInsensitivePattern(String(nationality))}$`,
+      $options: 'i'
+    }));
+  }
+  if (level) conditions.push(openOrMatching('levels', level));
+  if (field) {
+    conditions.push(openOrMatching('fields', { $regex: accentInsensitivePattern(String(field)), $options: 'i' }));
+  }
+  if (establishment) conditions.push(openOrMatching('establishments', establishment));
+  if (program) conditions.push(openOrMatching('programs', program));
+
+  if (conditions.length > 0) query.$and = conditions;
+
+  return query;
+};
+
+// Vérifier les paramètres qui feraient échouer le cast Mongo
+const validateScholarshipParams = (params: any) => {
+  if (params.level && !PROGRAM_DEGREES.includes(params.level)) {
+    return `Niveau invalide. Niveaux valides: ${PROGRAM_DEGREES.join(', ')}`;
+  }
+  for (const key of ['establishment', 'program']) {
+    if (params[key] && !mongoose.Types.ObjectId.isValid(params[key])) {
+      return `ID ${key === 'establishment' ? 'd\'établissement' : 'de formation'} invalide`;
+    }
+  }
+  return null;
+};
+
+// Les établissements et formations liés doivent exister
+const findMissingReferences = async (data: any) => {
+  const checks: Array<[mongoose.Model<any>, any[], string]> = [
+    [Establishment, data.establishments, 'établissement'],
+    [Program, data.programs, 'formation']
+  ];
+
+  for (const [model, ids, label] of checks) {
+    if (!Array.isArray(ids) || ids.length === 0) continue;
+    if (ids.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return `ID de ${label} invalide`;
+    }
+    const count = await model.countDocuments({ _id: { $in: ids } });
+    if (count !== new Set(ids.map(String)).size) {
+      return `Un ${label} lié est introuvable`;
+    }
+  }
+
+  return null;
+};
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError' && error.name !== 'CastError') return null;
+  const messages = error.errors
+    ? Object.values(error.errors).map((err: any) => err.message)
+    : [error.message];
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+const scholarshipNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Bourse non trouvée'
+  });
+
+// Liste paginée partagée par la recherche publique et les bourses recommandées
+const sendScholarshipPage = async (req: Request, res: Response, query: any, extra: Record<string, any> = {}) => {
+  const { sort = 'deadline', page = 1, limit = 12 } = req.query;
+
+  const sortOptions: Record<string, any> = {
+    deadline: { deadline: 1 },
+    amount: { amount: -1, deadline: 1 },
+    recent: { createdAt: -1 }
+  };
+
+  // Pagination
+  const pageNum = Math.max(1, parseInt(page as string) || 1);
+  const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 12));
+  const skip = (pageNum - 1) * limitNum;
+
+  const [scholarships, total] = await Promise.all([
+    Scholarship.find(query)
+      .populate('establishments', 'name location type')
+      .populate('programs', 'name degree establishment')
+      .sort(sortOptions[sort as string] || sortOptions.deadline)
+      .skip(skip)
+      .limit(limitNum),
+    Scholarship.countDocuments(query)
+  ]);
+
+  res.json({
+    success: true,
+    count: scholarships.length,
+    total,
+    totalPages: Math.ceil(total / limitNum),
+    currentPage: pageNum,
+    ...extra,
+    data: scholarships
+  });
+};
+
+// @desc    Rechercher des bourses
+//          ex: ?nationality=Sénégal&level=Master&field=informatique&sort=amount
+// @route   GET /api/scholarships
+// @access  Public
+export const getScholarships = async (req: Request, res: Response) => {
+  try {
+    const invalid = validateScholarshipParams(req.query);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+      });
+    }
+
+    await sendScholarshipPage(req, res, buildScholarshipQuery(req.query));
+
+  } catch (error) {
+    console.error('Erreur getScholarships:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la recherche de bourses'
+    });
+  }
+};
+
+// @desc    Bourses correspondant à la nationalité et au niveau du profil connecté
+// @route   GET /api/scholarships/for-me
+// @access  Private
+export const getMyScholarships = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById((req as any).user.id).select('nationality studyLevel');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Utilisateur non trouvé'
+      });
+    }
+
+    const invalid = validateScholarshipParams(req.query);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+      });
+    }
+
+    // Le profil prime ; les autres filtres de la recherche restent utilisables
+    const query = buildScholarshipQuery({
+      ...req.query,
+      nationality: user.nationality || req.query.nationality,
+      level: user.studyLevel || req.query.level
+    });
+
+    const missingProfile = [
+      !user.nationality && 'nationality',
+      !user.studyLevel && 'studyLevel'
+    ].filter(Boolean);
+
+    await sendScholarshipPage(req, res, query, {
+      profile: {
+        nationality: user.nationality || null,
+        studyLevel: user.studyLevel || null
+      },
+      ...(missingProfile.length > 0 && {
+        message: `Complétez votre profil (${missingProfile.join(', ')}) pour des résultats plus précis`
+      })
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyScholarships:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Prochaines dates limites de candidature
+//          ex: ?days=30&limit=10&nationality=Mali&level=Licence
+// @route   GET /api/scholarships/upcoming
+// @access  Public
+export const getUpcomingDeadlines = async (req: Request, res: Response) => {
+  try {
+    const invalid = validateScholarshipParams(req.query);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+      });
+    }
+
+    const days = Math.min(365, Math.max(1, parseInt(req.query.days as string) || 30));
+    const limitNum = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 10));
+
+    const now = new Date();
+    const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const query = buildScholarshipQuery({ ...req.query, includeExpired: 'true' });
+    query.deadline = { $gte: now, $lte: until };
+
+    const scholarships = await Scholarship.find(query)
+      .select('title provider amount amountPeriod deadline applicationUrl levels')
+      .sort({ deadline: 1 })
+      .limit(limitNum)
+      .lean();
+
+    res.json({
+      success: true,
+      count: scholarships.length,
+      days,
+      data: scholarships.map(scholarship => ({
+        ...scholarship,
+        daysLeft: Math.ceil((new Date(scholarship.deadline).getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+      }))
+    });
+
+  } catch (error) {
+    console.error('Erreur getUpcomingDeadlines:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Toutes les bourses, y compris inactives ou expirées (gestion)
+// @route   GET /api/scholarships/manage
+// @access  Private/Admin
+export const getScholarshipsForAdmin = async (req: Request, res: Response) => {
+  try {
+    const invalid = validateScholarshipParams(req.query);
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+      });
+    }
+
+    const query = buildScholarshipQuery({ ...req.query, includeExpired: 'true' });
+    if (req.query.isActive !== undefined) {
+      query.isActive = req.query.isActive === 'true';
+    } else {
+      delete query.isActive;
+    }
+
+    await sendScholarshipPage(req, res, query);
+
+  } catch (error) {
+    console.error('Erreur getScholarshipsForAdmin:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Récupérer une bourse par ID
+// @route   GET /api/scholarships/:id
+// @access  Public
+export const getScholarshipById = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return scholarshipNotFoundResponse(res);
+    }
+
+    const scholarship = await Scholarship.findById(req.params.id)
+      .populate('establishments', 'name location type isCAMESRecognized')
+      .populate({
+        path: 'programs',
+        select: 'name degree field annualTuition establishment',
+        populate: { path: 'establishment', select: 'name location' }
+      });
+
+    if (!scholarship) {
+      return scholarshipNotFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      data: scholarship
+    });
+
+  } catch (error) {
+    console.error('Erreur getScholarshipById:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Créer une bourse
+// @route   POST /api/scholarships
+// @access  Private/Admin
+export const createScholarship = async (req: Request, res: Response) => {
+  try {
+    const requiredFields = ['title', 'provider', 'description', 'deadline'];
+    const missingFields = requiredFields.filter(field => !req.body[field]);
+
+    if (missingFields.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Champs manquants: ${missingFields.join(', ')}`
+      });
+    }
+
+    const data = pickScholarshipFields(req.body);
+
+    const missingReference = await findMissingReferences(data);
+    if (missingReference) {
+      return res.status(400).json({
+        success: false,
+        message: missingReference
+      });
+    }
+
+    const scholarship = await Scholarship.create({
+      ...data,
+      createdBy: (req as any).user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: scholarship,
+      message: 'Bourse créée avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur createScholarship:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la création de la bourse'
+    });
+  }
+};
+
+// @desc    Mettre à jour une bourse
+// @route   PUT /api/scholarships/:id
+// @access  Private/Admin
+export const updateScholarship = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return scholarshipNotFoundResponse(res);
+    }
+
+    const scholarship = await Scholarship.findById(req.params.id);
+    if (!scholarship) {
+      return scholarshipNotFoundResponse(res);
+    }
+
+    const data = pickScholarshipFields(req.body);
+
+    const missingReference = await findMissingReferences(data);
+    if (missingReference) {
+      return res.status(400).json({
+        success: false,
+        message: missingReference
+      });
+    }
+
+    scholarship.set(data);
+    await scholarship.save();
+
+    res.json({
+      success: true,
+      data: scholarship,
+      message: 'Bourse mise à jour avec succès'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateScholarship:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour de la bourse'
+    });
+  }
+};
+
+// @desc    Supprimer une bourse
+// @route   DELETE /api/scholarships/:id
+// @access  Private/Admin
+export const deleteScholarship = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return scholarshipNotFoundResponse(res);
+    }
+
+    const scholarship = await Scholarship.findByIdAndDelete(req.params.id);
+    if (!scholarship) {
+      return scholarshipNotFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Bourse supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur deleteScholarship:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
\ No newline at end of file
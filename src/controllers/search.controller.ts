@@ -0,0 +1,220 @@
+// src/controllers/search.controller.ts
+import { Request, Response } from 'express';
+import { Establishment, Program, Housing } from '../models';
+import { getSuggestions, SUGGESTION_GROUPS } from '../services/suggestion.service';
+import {
+  MAX_QUERY_LENGTH,
+  HOUSING_PRICE_BANDS,
+  TUITION_PRICE_BANDS,
+  SearchQuery,
+  parseSearchQuery,
+  priceBandCondition,
+  facetedTextSearch
+} from '../services/search.service';
+import { accentInsensitivePattern } from '../utils/text';
+
+// Nombre minimal de caractères avant de proposer des suggestions
+const MIN_SUGGEST_LENGTH = 2;
+
+const SEARCH_GROUPS = ['establishments', 'programs', 'housing'] as const;
+type SearchGroup = typeof SEARCH_GROUPS[number];
+
+// Ville exacte, sans tenir compte des accents ni de la casse
+const cityCondition = (city: any) => ({ $regex: `^${accentInsensitivePattern(String(city))}$`, $options: 'i' });
+
+// Paramètres de pagination d'un groupe : ?establishmentsPage=2, ?housingPage=3...
+const groupPagination = (query: any, group: SearchGroup, limit: number) => {
+  const page = Math.max(1, parseInt(query[`${group}Page`]) || 1);
+  return { page, skip: (page - 1) * limit };
+};
+
+// Recherche d'un groupe : filtres propres au groupe + facettes
+const searchGroup = (group: SearchGroup, search: SearchQuery, params: any, skip: number, limit: number) => {
+  const { city, cames, establishmentType, degree, housingType, tuitionBand, priceBand } = params;
+
+  switch (group) {
+    case 'establishments': {
+      const filter: any = {};
+      if (city) filter.location = cityCondition(city);
+      if (establishmentType) filter.type = String(establishmentType);
+      if (cames !== undefined) filter.isCAMESRecognized = cames === 'true';
+
+      return facetedTextSearch(Establishment, search, {
+        filter,
+        facets: {
+          city: { field: 'location' },
+          type: { field: 'type' },
+          cames: { field: 'isCAMESRecognized' }
+        },
+        skip,
+        limit,
+        highlightFields: ['name', 'programs', 'location', 'description']
+      });
+    }
+
+    case 'programs': {
+      const filter: any = { isActive: true };
+      if (degree) filter.degree = String(degree);
+      const tuition = tuitionBand ? priceBandCondition(TUITION_PRICE_BANDS, String(tuitionBand)) : undefined;
+      if (tuition) filter.annualTuition = tuition;
+
+      // Ville et reconnaissance CAMES portent sur l'établissement
+      const postFilter: any = {};
+      if (city) postFilter['establishment.location'] = cityCondition(city);
+      if (cames !== undefined) postFilter['establishment.isCAMESRecognized'] = cames === 'true';
+
+      return facetedTextSearch(Program, search, {
+        filter,
+        lookup: [
+          {
+            $lookup: {
+              from: Establishment.collection.name,
+              localField: 'establishment',
+              foreignField: '_id',
+              as: 'establishment'
+            }
+          },
+          { $unwind: '$establishment' },
+          {
+            $addFields: {
+              establishment: {
+                _id: '$establishment._id',
+                name: '$establishment.name',
+                type: '$establishment.type',
+                location: '$establishment.location',
+                isCAMESRecognized: '$establishment.isCAMESRecognized',
+                rating: '$establishment.rating'
+              }
+            }
+          }
+        ],
+        postFilter,
+        facets: {
+          city: { field: 'establishment.location' },
+          degree: { field: 'degree' },
+          tuitionBand: { field: 'annualTuition', bands: TUITION_PRICE_BANDS },
+          cames: { field: 'establishment.isCAMESRecognized' }
+        },
+        skip,
+        limit,
+        highlightFields: ['name', 'field', 'description']
+      });
+    }
+
+    case 'housing': {
+      const filter: any = { isAvailable: true };
+      if (city) filter.location = cityCondition(city);
+      if (housingType) filter.type = String(housingType);
+      const price = priceBand ? priceBandCondition(HOUSING_PRICE_BANDS, String(priceBand)) : undefined;
+      if (price) filter.price = price;
+
+      return facetedTextSearch(Housing, search, {
+        filter,
+        facets: {
+          city: { field: 'location' },
+          type: { field: 'type' },
+          priceBand: { field: 'price', bands: HOUSING_PRICE_BANDS }
+        },
+        skip,
+        limit,
+        highlightFields: ['title', 'neighborhood', 'location', 'amenities', 'description']
+      });
+    }
+  }
+};
+
+// @desc    Suggestions d'autocomplétion groupées (établissements, formations, villes, quartiers, équipements)
+//          ex: ?q=ucad&limit=5
+// @route   GET /api/search/suggest
+// @access  Public
+export const suggest = async (req: Request, res: Response) => {
+  try {
+    const q = String(req.query.q || '').trim().slice(0, MAX_QUERY_LENGTH);
+    const limit = Math.min(10, Math.max(1, parseInt(req.query.limit as string) || 5));
+
+    if (q.length < MIN_SUGGEST_LENGTH) {
+      return res.json({
+        success: true,
+        query: q,
+        data: Object.fromEntries(SUGGESTION_GROUPS.map(group => [group, []]))
+      });
+    }
+
+    const suggestions = await getSuggestions(q, limit);
+
+    // Réponses identiques pour une même saisie : le navigateur peut les réutiliser brièvement
+    res.set('Cache-Control', 'public, max-age=60');
+    res.json({
+      success: true,
+      query: q,
+      data: suggestions
+    });
+
+  } catch (error) {
+    console.error('Erreur suggest:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des suggestions'
+    });
+  }
+};
+
+// @desc    Recherche unifiée : établissements, formations et logements, groupés avec facettes
+//          ex: ?q=informatique dakar&types=establishments,programs&limit=5&programsPage=2
+//          Filtres : city, cames, establishmentType, degree, tuitionBand, housingType, priceBand
+// @route   GET /api/search
+// @access  Public
+export const unifiedSearch = async (req: Request, res: Response) => {
+  try {
+    const search = parseSearchQuery(req.query.q);
+    if (!search) {
+      return res.status(400).json({
+        success: false,
+        message: 'Terme de recherche requis (q)'
+      });
+    }
+
+    const requestedTypes = req.query.types
+      ? String(req.query.types).split(',').map(type => type.trim())
+      : [...SEARCH_GROUPS];
+    const invalidTypes = requestedTypes.filter(type => !SEARCH_GROUPS.includes(type as SearchGroup));
+    if (invalidTypes.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Type invalide. Types valides: ${SEARCH_GROUPS.join(', ')}`
+      });
+    }
+    const groups = [...new Set(requestedTypes)] as SearchGroup[];
+
+    const limit = Math.min(20, Math.max(1, parseInt(req.query.limit as string) || 5));
+
+    const results = await Promise.all(groups.map(async group => {
+      const { page, skip } = groupPagination(req.query, group, limit);
+      const { data, total, facets } = await searchGroup(group, search, req.query, skip, limit);
+
+      return [group, {
+        count: data.length,
+        total,
+        totalPages: Math.ceil(total / limit),
+        currentPage: page,
+        facets,
+        data
+      }] as const;
+    }));
+
+    res.json({
+      success: true,
+      query: search.text,
+      corrections: search.corrections,
+      total: results.reduce((sum, [, result]) => sum + result.total, 0),
+      data: Object.fromEntries(results)
+    });
+
+  } catch (error) {
+    console.error('Erreur unifiedSearch:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la recherche'
+    });
+  }
+};
\ No newline at end of file
@@ -1,15 +1,45 @@
 // src/controllers/user.controller.ts
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { User } from '../models';
+import mongoose from 'mongoose';
+import { User, Establishment, Housing } from '../models';
+import { IUser } from '../models/User';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+  generateRandomToken,
+  hashToken
+} from '../services/token.service';
+import { sendVerificationEmail, sendPasswordResetEmail } from '../services/mail.service';
+import { escapeRegex } from '../utils/text';
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 heures
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 heure
+const MIN_PASSWORD_LENGTH = 8;
+
+const hashPassword = async (password: string) => {
+  const salt = await bcrypt.genSalt(10);
+  return bcrypt.hash(password, salt);
+};
+
+// Générer un nouveau token de vérification, le stocker haché et l'envoyer par email
+const issueVerificationToken = async (user: IUser) => {
+  const token = generateRandomToken(32);
+  user.verificationTokenHash = hashToken(token);
+  user.verificationTokenExpires = new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS);
+  await user.save();
+  await sendVerificationEmail(user, token);
+};
 
 // @desc    Inscription d'un nouvel utilisateur
 // @route   POST /api/users/register
 // @access  Public
 export const registerUser = async (req: Request, res: Response) => {
   try {
-    const { email, password, firstName, lastName, phone, role } = req.body;
+    // Le rôle n'est jamais lu depuis la requête : devenir propriétaire passe par une demande validée
+    const { email, password, firstName, lastName, phone } = req.body;
     
     // Validation des données
     if (!email || !password || !firstName || !lastName) {
@@ -19,6 +49,13 @@ export const registerUser = async (req: Request, res: Response) => {
       });
     }
     
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`
+      });
+    }
+    
     // Vérifier si l'utilisateur existe déjà
     const userExists = await User.findOne({ email });
     if (userExists) {
@@ -29,8 +66,7 @@ export const registerUser = async (req: Request, res: Response) => {
     }
     
     // Hasher le mot de passe
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(password, salt);
+    const hashedPassword = await hashPassword(password);
     
     // Créer l'utilisateur
     const user = await User.create({
@@ -39,26 +75,32 @@ export const registerUser = async (req: Request, res: Response) => {
       firstName,
       lastName,
       phone,
-      role: role || 'student'
+      role: 'student'
     });
     
-    // Créer le token JWT
-    const token = jwt.sign(
-      { id: user._id, role: user.role },
-      process.env.JWT_SECRET || 'votre_secret_jwt',
-      { expiresIn: '7d' }
-    );
+    // Envoyer l'email de vérification (l'inscription n'échoue pas si l'envoi échoue)
+    try {
+      await issueVerificationToken(user);
+    } catch (mailError) {
+      console.error('Erreur envoi email de vérification:', mailError);
+    }
+    
+    // Ouvrir une session (access token + refresh token)
+    const { token, refreshToken, expiresIn } = await createSession(user, req);
     
     res.status(201).json({
       success: true,
       token,
+      refreshToken,
+      expiresIn,
       user: {
         id: user._id,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
-        phone: user.phone
+        phone: user.phone,
+        isVerified: user.isVerified
       }
     });
     
@@ -103,23 +145,29 @@ export const loginUser = async (req: Request, res: Response) => {
       });
     }
     
-    // Créer le token JWT
-    const token = jwt.sign(
-      { id: user._id, role: user.role },
-      process.env.JWT_SECRET || 'votre_secret_jwt',
-      { expiresIn: '7d' }
-    );
+    if (user.isSuspended) {
+      return res.status(403).json({
+        success: false,
+        message: 'Compte suspendu, contactez l\'administration'
+      });
+    }
+    
+    // Ouvrir une session (access token + refresh token)
+    const { token, refreshToken, expiresIn } = await createSession(user, req);
     
     res.json({
       success: true,
       token,
+      refreshToken,
+      expiresIn,
       user: {
         id: user._id,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
-        phone: user.phone
+        phone: user.phone,
+        isVerified: user.isVerified
       }
     });
     
@@ -132,6 +180,315 @@ export const loginUser = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Renouveler l'access token à partir d'un refresh token
+// @route   POST /api/users/refresh
+// @access  Public
+export const refreshAccessToken = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        message: 'Refresh token requis'
+      });
+    }
+    
+    // Le refresh token est consommé et remplacé à chaque appel
+    const tokens = await rotateSession(refreshToken);
+    if (!tokens) {
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token invalide, expiré ou révoqué'
+      });
+    }
+    
+    res.json({
+      success: true,
+      ...tokens
+    });
+    
+  } catch (error) {
+    console.error('Erreur refreshAccessToken:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors du renouvellement du token'
+    });
+  }
+};
+
+// @desc    Déconnexion de la session courante
+// @route   POST /api/users/logout
+// @access  Private
+export const logoutUser = async (req: Request, res: Response) => {
+  try {
+    await revokeSession((req as any).user.sid);
+    
+    res.json({
+      success: true,
+      message: 'Déconnexion réussie'
+    });
+    
+  } catch (error) {
+    console.error('Erreur logoutUser:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la déconnexion'
+    });
+  }
+};
+
+// @desc    Déconnexion de tous les appareils
+// @route   POST /api/users/logout-all
+// @access  Private
+export const logoutAllSessions = async (req: Request, res: Response) => {
+  try {
+    const revokedCount = await revokeAllSessions((req as any).user.id);
+    
+    res.json({
+      success: true,
+      message: 'Toutes les sessions ont été fermées',
+      revokedCount
+    });
+    
+  } catch (error) {
+    console.error('Erreur logoutAllSessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la déconnexion'
+    });
+  }
+};
+
+// @desc    Vérifier l'adresse email à partir du token reçu
+// @route   GET /api/users/verify-email/:token
+// @access  Public
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findOne({
+      verificationTokenHash: hashToken(req.params.token),
+      verificationTokenExpires: { $gt: new Date() }
+    });
+    
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Lien de vérification invalide ou expiré'
+      });
+    }
+    
+    user.isVerified = true;
+    user.verificationTokenHash = undefined;
+    user.verificationTokenExpires = undefined;
+    await user.save();
+    
+    res.json({
+      success: true,
+      message: 'Adresse email vérifiée avec succès'
+    });
+    
+  } catch (error) {
+    console.error('Erreur verifyEmail:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la vérification'
+    });
+  }
+};
+
+// @desc    Renvoyer l'email de vérification
+// @route   POST /api/users/verify-email/resend
+// @access  Private
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById((req as any).user.id);
+    
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Utilisateur non trouvé'
+      });
+    }
+    
+    if (user.isVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Adresse email déjà vérifiée'
+      });
+    }
+    
+    await issueVerificationToken(user);
+    
+    res.json({
+      success: true,
+      message: 'Email de vérification renvoyé'
+    });
+    
+  } catch (error) {
+    console.error('Erreur resendVerificationEmail:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'envoi de l\'email'
+    });
+  }
+};
+
+// @desc    Demander un lien de réinitialisation du mot de passe
+// @route   POST /api/users/forgot-password
+// @access  Public
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Veuillez fournir une adresse email'
+      });
+    }
+    
+    const user = await User.findOne({ email: String(email).toLowerCase() });
+    
+    // Même réponse que l'email existe ou non, pour ne pas révéler les comptes
+    if (user) {
+      const token = generateRandomToken(32);
+      user.passwordResetTokenHash = hashToken(token);
+      user.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+      await user.save();
+      // Un échec d'envoi ne doit pas changer la réponse (et révéler que le compte existe)
+      try {
+        await sendPasswordResetEmail(user, token);
+      } catch (mailError) {
+        console.error('Erreur envoi email de réinitialisation:', mailError);
+      }
+    }
+    
+    res.json({
+      success: true,
+      message: 'Si un compte existe pour cet email, un lien de réinitialisation a été envoyé'
+    });
+    
+  } catch (error) {
+    console.error('Erreur forgotPassword:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la demande de réinitialisation'
+    });
+  }
+};
+
+// @desc    Réinitialiser le mot de passe à partir du token reçu
+// @route   POST /api/users/reset-password/:token
+// @access  Public
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+    
+    if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`
+      });
+    }
+    
+    const user = await User.findOne({
+      passwordResetTokenHash: hashToken(req.params.token),
+      passwordResetExpires: { $gt: new Date() }
+    });
+    
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Lien de réinitialisation invalide ou expiré'
+      });
+    }
+    
+    // Le token est à usage unique
+    user.password = await hashPassword(password);
+    user.passwordChangedAt = new Date();
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpires = undefined;
+    await user.save();
+    
+    // Fermer toutes les sessions ouvertes avec l'ancien mot de passe
+    await revokeAllSessions(String(user._id));
+    
+    res.json({
+      success: true,
+      message: 'Mot de passe réinitialisé, veuillez vous reconnecter'
+    });
+    
+  } catch (error) {
+    console.error('Erreur resetPassword:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la réinitialisation'
+    });
+  }
+};
+
+// @desc    Changer le mot de passe de l'utilisateur connecté
+// @route   PUT /api/users/password
+// @access  Private
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Veuillez fournir le mot de passe actuel et le nouveau mot de passe'
+      });
+    }
+    
+    if (String(newPassword).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`
+      });
+    }
+    
+    const user = await User.findById((req as any).user.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Utilisateur non trouvé'
+      });
+    }
+    
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        success: false,
+        message: 'Mot de passe actuel incorrect'
+      });
+    }
+    
+    user.password = await hashPassword(newPassword);
+    user.passwordChangedAt = new Date();
+    await user.save();
+    
+    // Invalider toutes les sessions existantes puis rouvrir celle de l'appareil courant
+    await revokeAllSessions(String(user._id));
+    const { token, refreshToken, expiresIn } = await createSession(user, req);
+    
+    res.json({
+      success: true,
+      message: 'Mot de passe modifié, les autres sessions ont été fermées',
+      token,
+      refreshToken,
+      expiresIn
+    });
+    
+  } catch (error) {
+    console.error('Erreur changePassword:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors du changement de mot de passe'
+    });
+  }
+};
+
 // @desc    Récupérer le profil utilisateur
 // @route   GET /api/users/profile
 // @access  Private
@@ -167,11 +524,11 @@ export const getUserProfile = async (req: Request, res: Response) => {
 export const updateUserProfile = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const { firstName, lastName, phone } = req.body;
+    const { firstName, lastName, phone, nationality, studyLevel } = req.body;
     
     const user = await User.findByIdAndUpdate(
       userId,
-      { firstName, lastName, phone },
+      { firstName, lastName, phone, nationality, studyLevel },
       { new: true, runValidators: true }
     ).select('-password');
     
@@ -180,8 +537,18 @@ export const updateUserProfile = async (req: Request, res: Response) => {
       user
     });
     
-  } catch (error) {
+  } catch (error: any) {
     console.error('Erreur updateUserProfile:', error);
+    
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map((err: any) => err.message);
+      return res.status(400).json({
+        success: false,
+        message: 'Erreur de validation',
+        errors: messages
+      });
+    }
+    
     res.status(500).json({
       success: false,
       message: 'Erreur serveur'
@@ -189,6 +556,33 @@ export const updateUserProfile = async (req: Request, res: Response) => {
   }
 };
 
+// Vérifier que la cible d'un favori est un ID valide et qu'elle existe encore
+const checkFavoriteTarget = async (
+  model: mongoose.Model<any>,
+  id: string,
+  res: Response,
+  label: string
+) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      success: false,
+      message: `ID ${label} invalide`
+    });
+    return false;
+  }
+  
+  const exists = await model.exists({ _id: id });
+  if (!exists) {
+    res.status(404).json({
+      success: false,
+      message: `${label.charAt(0).toUpperCase()}${label.slice(1)} non trouvé`
+    });
+    return false;
+  }
+  
+  return true;
+};
+
 // @desc    Ajouter un établissement aux favoris
 // @route   POST /api/users/favorites/establishments/:id
 // @access  Private
@@ -197,6 +591,8 @@ export const addEstablishmentToFavorites = async (req: Request, res: Response) =
     const userId = (req as any).user.id;
     const establishmentId = req.params.id;
     
+    if (!(await checkFavoriteTarget(Establishment, establishmentId, res, 'établissement'))) return;
+    
     const user = await User.findByIdAndUpdate(
       userId,
       { $addToSet: { 'favorites.establishments': establishmentId } },
@@ -218,6 +614,42 @@ export const addEstablishmentToFavorites = async (req: Request, res: Response) =
   }
 };
 
+// @desc    Retirer un établissement des favoris
+// @route   DELETE /api/users/favorites/establishments/:id
+// @access  Private
+export const removeEstablishmentFromFavorites = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    // Pas de vérification d'existence : on doit pouvoir retirer un établissement supprimé
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID établissement invalide'
+      });
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $pull: { 'favorites.establishments': req.params.id } },
+      { new: true }
+    ).select('-password');
+    
+    res.json({
+      success: true,
+      message: 'Établissement retiré des favoris',
+      user
+    });
+    
+  } catch (error) {
+    console.error('Erreur removeEstablishmentFromFavorites:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
 // @desc    Ajouter un logement aux favoris
 // @route   POST /api/users/favorites/housing/:id
 // @access  Private
@@ -226,6 +658,8 @@ export const addHousingToFavorites = async (req: Request, res: Response) => {
     const userId = (req as any).user.id;
     const housingId = req.params.id;
     
+    if (!(await checkFavoriteTarget(Housing, housingId, res, 'logement'))) return;
+    
     const user = await User.findByIdAndUpdate(
       userId,
       { $addToSet: { 'favorites.housing': housingId } },
@@ -247,6 +681,41 @@ export const addHousingToFavorites = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Retirer un logement des favoris
+// @route   DELETE /api/users/favorites/housing/:id
+// @access  Private
+export const removeHousingFromFavorites = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID logement invalide'
+      });
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $pull: { 'favorites.housing': req.params.id } },
+      { new: true }
+    ).select('-password');
+    
+    res.json({
+      success: true,
+      message: 'Logement retiré des favoris',
+      user
+    });
+    
+  } catch (error) {
+    console.error('Erreur removeHousingFromFavorites:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
 // @desc    Récupérer les favoris de l'utilisateur
 // @route   GET /api/users/favorites
 // @access  Private
@@ -259,9 +728,31 @@ export const getUserFavorites = async (req: Request, res: Response) => {
       .populate('favorites.housing')
       .select('-password');
     
+    if (!user) {
+      return res.json({
+        success: true,
+        favorites: { establishments: [], housing: [] }
+      });
+    }
+    
+    // Les documents supprimés sont populés à null : on les écarte et on nettoie le profil
+    const establishments = user.favorites.establishments.filter(Boolean);
+    const housing = user.favorites.housing.filter(Boolean);
+    
+    if (establishments.length !== user.favorites.establishments.length ||
+      housing.length !== user.favorites.housing.length) {
+      await User.updateOne(
+        { _id: userId },
+        {
+          'favorites.establishments': establishments.map((doc: any) => doc._id),
+          'favorites.housing': housing.map((doc: any) => doc._id)
+        }
+      );
+    }
+    
     res.json({
       success: true,
-      favorites: user?.favorites || { establishments: [], housing: [] }
+      favorites: { establishments, housing }
     });
     
   } catch (error) {
@@ -273,16 +764,96 @@ export const getUserFavorites = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Récupérer tous les utilisateurs (admin seulement)
+// @desc    Récupérer uniquement les IDs des favoris (pour l'affichage des icônes côté client)
+// @route   GET /api/users/favorites/ids
+// @access  Private
+export const getUserFavoriteIds = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById((req as any).user.id).select('favorites');
+    
+    res.json({
+      success: true,
+      favorites: {
+        establishments: user?.favorites.establishments || [],
+        housing: user?.favorites.housing || []
+      }
+    });
+    
+  } catch (error) {
+    console.error('Erreur getUserFavoriteIds:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Récupérer les utilisateurs (admin seulement), avec filtres et pagination
 // @route   GET /api/users
 // @access  Private/Admin
 export const getUsers = async (req: Request, res: Response) => {
   try {
-    const users = await User.find().select('-password');
+    const {
+      role,
+      verified,
+      suspended,
+      nationality,
+      createdFrom,
+      createdTo,
+      search,
+      page = 1,
+      limit = 20
+    } = req.query;
+    
+    // Construction de la requête de filtrage
+    const query: any = {};
+    
+    if (role) query.role = String(role);
+    if (verified !== undefined) query.isVerified = verified === 'true';
+    if (suspended !== undefined) query.isSuspended = suspended === 'true';
+    if (nationality) query.nationality = String(nationality);
+    if (createdFrom || createdTo) {
+      const from = createdFrom ? new Date(String(createdFrom)) : null;
+      const to = createdTo ? new Date(String(createdTo)) : null;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dates de création invalides (format ISO attendu)'
+        });
+      }
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = from;
+      if (to) query.createdAt.$lte = to;
+    }
+    if (search) {
+      const escaped = escapeRegex(search as string);
+      query.$or = [
+        { email: { $regex: escaped, $options: 'i' } },
+        { firstName: { $regex: escaped, $options: 'i' } },
+        { lastName: { $regex: escaped, $options: 'i' } }
+      ];
+    }
+    
+    // Pagination
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+    const skip = (pageNum - 1) * limitNum;
+    
+    const [users, total] = await Promise.all([
+      User.find(query)
+        .select('-password')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limitNum),
+      User.countDocuments(query)
+    ]);
     
     res.json({
       success: true,
       count: users.length,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+      currentPage: pageNum,
       users
     });
     
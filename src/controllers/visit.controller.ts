@@ -0,0 +1,671 @@
+// src/controllers/visit.controller.ts
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Housing, User, VisitRequest } from '../models';
+import { IVisitRequest, IVisitSlot } from '../models/VisitRequest';
+import {
+  getAvailability,
+  buildSlot,
+  checkSlotAvailability,
+  findConflictingVisit,
+  listAvailableSlots,
+  MAX_SLOT_DAYS
+} from '../services/visit.service';
+import { sendVisitUpdateEmail } from '../services/mail.service';
+import { refId } from '../utils/refs';
+
+// Champs modifiables du planning de visites
+const AVAILABILITY_FIELDS = ['weeklySlots', 'unavailableDates', 'visitDuration', 'minNoticeHours'];
+
+// Demandes encore ouvertes (un étudiant n'en a qu'une à la fois par logement)
+const OPEN_STATUSES = ['pending', 'rescheduled', 'confirmed'];
+
+const visitNotFoundResponse = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Demande de visite non trouvée'
+  });
+
+const validationErrorResponse = (res: Response, error: any) => {
+  if (error.name !== 'ValidationError' && error.name !== 'CastError') return null;
+  const messages = error.errors
+    ? Object.values(error.errors).map((err: any) => err.message)
+    : [error.message];
+  return res.status(400).json({
+    success: false,
+    message: 'Erreur de validation',
+    errors: messages
+  });
+};
+
+const conflictResponse = (res: Response, conflict: IVisitRequest) =>
+  res.status(409).json({
+    success: false,
+    message: 'Ce créneau chevauche une visite déjà confirmée',
+    conflict: {
+      start: conflict.scheduledStart,
+      end: conflict.scheduledEnd
+    }
+  });
+
+const formatVisitDate = (date: Date) =>
+  date.toLocaleString('fr-FR', { timeZone: 'Africa/Dakar', dateStyle: 'full', timeStyle: 'short' });
+
+// Demande de visite dont l'utilisateur connecté est le propriétaire ou l'étudiant (selon `side`)
+const findVisitFor = async (req: Request, side: 'landlord' | 'student') => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) return null;
+  return VisitRequest.findOne({ _id: req.params.id, [side]: (req as any).user.id });
+};
+
+const populateVisit = (query: any) =>
+  query
+    .populate('housing', 'title location neighborhood images')
+    .populate('student', 'firstName lastName')
+    .populate('landlord', 'firstName lastName');
+
+// Prévenir l'autre partie par email (n'interrompt jamais la requête)
+const notifyVisit = async (visit: IVisitRequest, recipient: 'landlord' | 'student', update: string) => {
+  try {
+    const [user, housing] = await Promise.all([
+      User.findById(visit[recipient]).select('email firstName'),
+      Housing.findById(visit.housing).select('title')
+    ]);
+    if (user) {
+      await sendVisitUpdateEmail(user, housing?.title || 'logement', update);
+    }
+  } catch (mailError) {
+    console.error('Erreur envoi email de visite:', mailError);
+  }
+};
+
+// @desc    Créneaux de visite encore libres pour un logement
+//          ex: ?from=2025-03-01&days=7
+// @route   GET /api/housing/:id/visit-slots
+// @access  Public
+export const getVisitSlots = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de logement invalide'
+      });
+    }
+
+    const housing = await Housing.findById(req.params.id).select('owner isAvailable');
+    if (!housing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Logement non trouvé'
+      });
+    }
+
+    if (!housing.owner || !housing.isAvailable) {
+      return res.status(422).json({
+        success: false,
+        message: 'Ce logement ne propose pas de visite en ligne'
+      });
+    }
+
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date();
+    if (isNaN(from.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date de début invalide (format ISO attendu)'
+      });
+    }
+    const days = Math.min(MAX_SLOT_DAYS, Math.max(1, parseInt(req.query.days as string) || 7));
+
+    const availability = await getAvailability(housing.owner);
+    const slots = await listAvailableSlots(availability, from, days);
+
+    res.json({
+      success: true,
+      data: {
+        visitDuration: availability.visitDuration,
+        minNoticeHours: availability.minNoticeHours,
+        days: slots
+      }
+    });
+
+  } catch (error) {
+    console.error('Erreur getVisitSlots:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des créneaux'
+    });
+  }
+};
+
+// @desc    Demander une visite en proposant 1 à 3 créneaux
+//          body: { slots: ["2025-03-04T10:00:00Z", ...], message }
+// @route   POST /api/housing/:id/visits
+// @access  Private/Student
+export const requestVisit = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { slots, message } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'ID de logement invalide'
+      });
+    }
+
+    const housing = await Housing.findById(req.params.id).select('title owner isAvailable');
+    if (!housing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Logement non trouvé'
+      });
+    }
+
+    if (!housing.owner || !housing.isAvailable) {
+      return res.status(422).json({
+        success: false,
+        message: 'Ce logement ne propose pas de visite en ligne'
+      });
+    }
+
+    if (!Array.isArray(slots) || slots.length < 1 || slots.length > 3) {
+      return res.status(400).json({
+        success: false,
+        message: 'Proposez entre 1 et 3 créneaux (dates de début au format ISO)'
+      });
+    }
+
+    const existing = await VisitRequest.exists({ housing: housing._id, student: userId, status: { $in: OPEN_STATUSES } });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vous avez déjà une demande de visite en cours pour ce logement'
+      });
+    }
+
+    const availability = await getAvailability(housing.owner);
+    const proposedSlots: IVisitSlot[] = slots.map((start: any) => buildSlot(availability, new Date(start)));
+
+    const errors = proposedSlots
+      .map((slot, index) => {
+        const reason = checkSlotAvailability(availability, slot);
+        return reason ? `Créneau ${index + 1} : ${reason}` : null;
+      })
+      .filter(Boolean);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Créneaux invalides',
+        errors
+      });
+    }
+
+    // Les créneaux déjà pris ne sont pas proposés au propriétaire
+    const participants = { landlord: housing.owner, student: userId };
+    const conflicts = await Promise.all(proposedSlots.map(slot => findConflictingVisit(participants, slot)));
+    const freeSlots = proposedSlots.filter((slot, index) => !conflicts[index]);
+    if (freeSlots.length === 0) {
+      return conflictResponse(res, conflicts[0] as IVisitRequest);
+    }
+
+    const visit = await VisitRequest.create({
+      housing: housing._id,
+      student: userId,
+      landlord: housing.owner,
+      proposedSlots: freeSlots,
+      message
+    });
+
+    await notifyVisit(
+      visit,
+      'landlord',
+      `Un étudiant souhaite visiter votre logement "${housing.title}". ` +
+      `Créneaux proposés : ${freeSlots.map(slot => formatVisitDate(slot.start)).join(' ; ')}.`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: await populateVisit(VisitRequest.findById(visit._id)),
+      message: freeSlots.length < proposedSlots.length
+        ? 'Demande envoyée (les créneaux déjà pris ont été retirés)'
+        : 'Demande de visite envoyée'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur requestVisit:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la demande de visite'
+    });
+  }
+};
+
+// @desc    Visites à venir et demandes en cours, côté étudiant comme côté propriétaire
+//          ex: ?housing=<id> pour un seul logement
+// @route   GET /api/visits/upcoming
+// @access  Private
+export const getUpcomingVisits = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { housing } = req.query;
+
+    const base: any = { $or: [{ student: userId }, { landlord: userId }] };
+    if (housing) {
+      if (!mongoose.Types.ObjectId.isValid(housing as string)) {
+        return res.status(400).json({
+          success: false,
+          message: 'ID de logement invalide'
+        });
+      }
+      base.housing = housing;
+    }
+
+    const [confirmed, open] = await Promise.all([
+      populateVisit(VisitRequest.find({ ...base, status: 'confirmed', scheduledEnd: { $gte: new Date() } }))
+        .sort({ scheduledStart: 1 }),
+      populateVisit(VisitRequest.find({ ...base, status: { $in: ['pending', 'rescheduled'] } }))
+        .sort({ createdAt: 1 })
+    ]);
+
+    // Le propriétaire répond aux demandes, l'étudiant aux reports
+    const isMyTurn = (visit: IVisitRequest) =>
+      visit.status === 'pending'
+        ? refId(visit, 'landlord') === userId
+        : refId(visit, 'student') === userId;
+
+    const withRole = (visit: IVisitRequest) => ({
+      ...visit.toObject(),
+      role: refId(visit, 'landlord') === userId ? 'landlord' : 'student'
+    });
+
+    res.json({
+      success: true,
+      data: {
+        upcoming: confirmed.map(withRole),
+        toAnswer: open.filter(isMyTurn).map(withRole),
+        awaitingAnswer: open.filter((visit: IVisitRequest) => !isMyTurn(visit)).map(withRole)
+      }
+    });
+
+  } catch (error) {
+    console.error('Erreur getUpcomingVisits:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la récupération des visites'
+    });
+  }
+};
+
+// @desc    Consulter son planning de visites (planning par défaut s'il n'a pas été défini)
+// @route   GET /api/visits/availability
+// @access  Private/Landlord ou Admin
+export const getMyAvailability = async (req: Request, res: Response) => {
+  try {
+    const availability = await getAvailability((req as any).user.id);
+
+    res.json({
+      success: true,
+      data: {
+        ...availability.toObject(),
+        isDefault: availability.isNew
+      }
+    });
+
+  } catch (error) {
+    console.error('Erreur getMyAvailability:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Définir son planning de visites
+//          body: { weeklySlots: [{ dayOfWeek, startTime: "09:00", endTime: "12:00" }], unavailableDates, visitDuration, minNoticeHours }
+// @route   PUT /api/visits/availability
+// @access  Private/Landlord ou Admin
+export const updateMyAvailability = async (req: Request, res: Response) => {
+  try {
+    const availability = await getAvailability((req as any).user.id);
+
+    AVAILABILITY_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) availability.set(field, req.body[field]);
+    });
+    await availability.save();
+
+    res.json({
+      success: true,
+      data: availability,
+      message: 'Disponibilités mises à jour (les visites déjà confirmées sont conservées)'
+    });
+
+  } catch (error: any) {
+    console.error('Erreur updateMyAvailability:', error);
+    if (validationErrorResponse(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la mise à jour des disponibilités'
+    });
+  }
+};
+
+// @desc    Détail d'une demande de visite
+// @route   GET /api/visits/:id
+// @access  Private (étudiant, propriétaire ou admin)
+export const getVisitById = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return visitNotFoundResponse(res);
+    }
+
+    const user = (req as any).user;
+    const visit = await populateVisit(VisitRequest.findById(req.params.id));
+    if (!visit || (user.role !== 'admin' &&
+      refId(visit, 'student') !== user.id && refId(visit, 'landlord') !== user.id)) {
+      return visitNotFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      data: visit
+    });
+
+  } catch (error) {
+    console.error('Erreur getVisitById:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Accepter un des créneaux proposés par l'étudiant
+//          body: { start } (facultatif s'il n'y a qu'un créneau)
+// @route   PATCH /api/visits/:id/accept
+// @access  Private (propriétaire)
+export const acceptVisit = async (req: Request, res: Response) => {
+  try {
+    const visit = await findVisitFor(req, 'landlord');
+    if (!visit) {
+      return visitNotFoundResponse(res);
+    }
+
+    if (visit.status !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: `Cette demande n'est plus en attente (${visit.status})`
+      });
+    }
+
+    const start = req.body.start ? new Date(req.body.start) : undefined;
+    const slot = start
+      ? visit.proposedSlots.find(proposed => proposed.start.getTime() === start.getTime())
+      : visit.proposedSlots.length === 1 ? visit.proposedSlots[0] : undefined;
+    if (!slot) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choisissez un des créneaux proposés (start), ou proposez-en un autre avec /reschedule'
+      });
+    }
+
+    if (slot.start < new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ce créneau est passé, proposez-en un autre avec /reschedule'
+      });
+    }
+
+    const conflict = await findConflictingVisit(visit, slot, visit._id);
+    if (conflict) {
+      return conflictResponse(res, conflict);
+    }
+
+    visit.status = 'confirmed';
+    visit.scheduledStart = slot.start;
+    visit.scheduledEnd = slot.end;
+    visit.response = req.body.message;
+    visit.respondedAt = new Date();
+    await visit.save();
+
+    await notifyVisit(visit, 'student', `Votre visite est confirmée pour le ${formatVisitDate(slot.start)}.`);
+
+    res.json({
+      success: true,
+      data: await populateVisit(VisitRequest.findById(visit._id)),
+      message: 'Visite confirmée'
+    });
+
+  } catch (error) {
+    console.error('Erreur acceptVisit:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la confirmation de la visite'
+    });
+  }
+};
+
+// @desc    Proposer un autre créneau à l'étudiant (y compris pour une visite déjà confirmée)
+//          body: { start, message }
+// @route   PATCH /api/visits/:id/reschedule
+// @access  Private (propriétaire)
+export const rescheduleVisit = async (req: Request, res: Response) => {
+  try {
+    const visit = await findVisitFor(req, 'landlord');
+    if (!visit) {
+      return visitNotFoundResponse(res);
+    }
+
+    if (!OPEN_STATUSES.includes(visit.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Cette demande est clôturée (${visit.status})`
+      });
+    }
+
+    if (!req.body.start) {
+      return res.status(400).json({
+        success: false,
+        message: 'Le nouveau créneau (start) est requis'
+      });
+    }
+
+    const availability = await getAvailability(visit.landlord);
+    const slot = buildSlot(availability, new Date(req.body.start));
+    const reason = checkSlotAvailability(availability, slot);
+    if (reason) {
+      return res.status(400).json({
+        success: false,
+        message: reason
+      });
+    }
+
+    const conflict = await findConflictingVisit(visit, slot, visit._id);
+    if (conflict) {
+      return conflictResponse(res, conflict);
+    }
+
+    visit.status = 'rescheduled';
+    visit.scheduledStart = slot.start;
+    visit.scheduledEnd = slot.end;
+    visit.response = req.body.message;
+    visit.respondedAt = new Date();
+    await visit.save();
+
+    await notifyVisit(
+      visit,
+      'student',
+      `Le propriétaire propose un nouveau créneau de visite le ${formatVisitDate(slot.start)}. ` +
+      'Confirmez-le ou annulez votre demande.' +
+      (req.body.message ? ` Message : ${req.body.message}` : '')
+    );
+
+    res.json({
+      success: true,
+      data: await populateVisit(VisitRequest.findById(visit._id)),
+      message: 'Nouveau créneau proposé à l\'étudiant'
+    });
+
+  } catch (error) {
+    console.error('Erreur rescheduleVisit:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors du report de la visite'
+    });
+  }
+};
+
+// @desc    Accepter le créneau proposé par le propriétaire
+// @route   PATCH /api/visits/:id/confirm
+// @access  Private (étudiant)
+export const confirmVisit = async (req: Request, res: Response) => {
+  try {
+    const visit = await findVisitFor(req, 'student');
+    if (!visit) {
+      return visitNotFoundResponse(res);
+    }
+
+    if (visit.status !== 'rescheduled') {
+      return res.status(400).json({
+        success: false,
+        message: 'Aucun nouveau créneau n\'est en attente de confirmation'
+      });
+    }
+
+    const slot = { start: visit.scheduledStart as Date, end: visit.scheduledEnd as Date };
+    if (slot.start < new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ce créneau est passé, demandez une nouvelle visite'
+      });
+    }
+
+    // Un autre créneau a pu être confirmé entre-temps
+    const conflict = await findConflictingVisit(visit, slot, visit._id);
+    if (conflict) {
+      return conflictResponse(res, conflict);
+    }
+
+    visit.status = 'confirmed';
+    await visit.save();
+
+    await notifyVisit(visit, 'landlord', `La visite du ${formatVisitDate(slot.start)} est confirmée par l'étudiant.`);
+
+    res.json({
+      success: true,
+      data: await populateVisit(VisitRequest.findById(visit._id)),
+      message: 'Visite confirmée'
+    });
+
+  } catch (error) {
+    console.error('Erreur confirmVisit:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la confirmation de la visite'
+    });
+  }
+};
+
+// @desc    Refuser une demande de visite
+//          body: { reason }
+// @route   PATCH /api/visits/:id/decline
+// @access  Private (propriétaire)
+export const declineVisit = async (req: Request, res: Response) => {
+  try {
+    const visit = await findVisitFor(req, 'landlord');
+    if (!visit) {
+      return visitNotFoundResponse(res);
+    }
+
+    if (visit.status !== 'pending' && visit.status !== 'rescheduled') {
+      return res.status(400).json({
+        success: false,
+        message: visit.status === 'confirmed'
+          ? 'Cette visite est confirmée : annulez-la plutôt'
+          : `Cette demande est clôturée (${visit.status})`
+      });
+    }
+
+    visit.status = 'declined';
+    visit.response = req.body.reason;
+    visit.respondedAt = new Date();
+    await visit.save();
+
+    await notifyVisit(
+      visit,
+      'student',
+      'Votre demande de visite a été refusée par le propriétaire.' + (req.body.reason ? ` Motif : ${req.body.reason}` : '')
+    );
+
+    res.json({
+      success: true,
+      data: visit,
+      message: 'Demande de visite refusée'
+    });
+
+  } catch (error) {
+    console.error('Erreur declineVisit:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
+
+// @desc    Annuler une demande ou une visite confirmée à venir
+//          body: { reason }
+// @route   PATCH /api/visits/:id/cancel
+// @access  Private (étudiant ou propriétaire)
+export const cancelVisit = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return visitNotFoundResponse(res);
+    }
+
+    const visit = await VisitRequest.findOne({
+      _id: req.params.id,
+      $or: [{ student: userId }, { landlord: userId }]
+    });
+    if (!visit) {
+      return visitNotFoundResponse(res);
+    }
+
+    if (!OPEN_STATUSES.includes(visit.status) ||
+      (visit.status === 'confirmed' && (visit.scheduledEnd as Date) < new Date())) {
+      return res.status(400).json({
+        success: false,
+        message: `Cette demande ne peut plus être annulée (${visit.status})`
+      });
+    }
+
+    const wasConfirmed = visit.status === 'confirmed';
+    visit.status = 'cancelled';
+    visit.cancelledBy = userId;
+    visit.cancelReason = req.body.reason;
+    await visit.save();
+
+    const byLandlord = visit.landlord.toString() === userId;
+    await notifyVisit(
+      visit,
+      byLandlord ? 'student' : 'landlord',
+      (wasConfirmed
+        ? `La visite du ${formatVisitDate(visit.scheduledStart as Date)} a été annulée`
+        : 'La demande de visite a été annulée') +
+      ` par ${byLandlord ? 'le propriétaire' : 'l\'étudiant'}.` +
+      (req.body.reason ? ` Motif : ${req.body.reason}` : '')
+    );
+
+    res.json({
+      success: true,
+      data: visit,
+      message: wasConfirmed ? 'Visite annulée' : 'Demande de visite annulée'
+    });
+
+  } catch (error) {
+    console.error('Erreur cancelVisit:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erreur serveur'
+    });
+  }
+};
\ No newline at end of file
@@ -1,4 +1,6 @@
 import app from './app';
+import { startApplicationReminders } from './services/application.service';
+import { startSavedSearchDigests } from './services/savedSearch.service';
 
 const PORT = process.env.PORT || 5000;
 
@@ -13,4 +15,8 @@ app.listen(PORT, () => {
   } else {
     console.log('💻 Environnement: Développement');
   }
+
+  // Tâches périodiques : rappels de candidature, récapitulatifs des recherches enregistrées
+  startApplicationReminders();
+  startSavedSearchDigests();
 });
\ No newline at end of file
@@ -0,0 +1,79 @@
+// src/middleware/auth.middleware.spec.ts
+import { Response } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { User } from '../models';
+import * as tokenService from '../services/token.service';
+import { protect, AuthRequest } from './auth.middleware';
+
+const mockResponse = () => {
+  const res: Partial<Response> = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res as Response;
+};
+
+const userId = new mongoose.Types.ObjectId();
+const sessionId = new mongoose.Types.ObjectId().toString();
+
+const requestWith = (payload: object) => ({
+  headers: { authorization: `Bearer ${jwt.sign(payload, tokenService.getJwtSecret())}` }
+}) as AuthRequest;
+
+const mockUser = (fields: { role: string; isSuspended: boolean }) =>
+  jest.spyOn(User, 'findById').mockReturnValue({
+    select: jest.fn().mockResolvedValue(User.hydrate({ _id: userId, ...fields }))
+  } as unknown as ReturnType<typeof User.findById>);
+
+describe('protect', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuse un access token dont la session a été révoquée', async () => {
+    const isSessionActive = jest.spyOn(tokenService, 'isSessionActive').mockResolvedValue(false);
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await protect(requestWith({ id: String(userId), role: 'student', sid: sessionId }), res, next);
+
+    expect(isSessionActive).toHaveBeenCalledWith(sessionId);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('refuse un access token sans session (ancien format)', async () => {
+    const isSessionActive = jest.spyOn(tokenService, 'isSessionActive');
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await protect(requestWith({ id: String(userId), role: 'student' }), res, next);
+
+    expect(isSessionActive).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('accepte une session active avec le rôle relu en base', async () => {
+    jest.spyOn(tokenService, 'isSessionActive').mockResolvedValue(true);
+    mockUser({ role: 'landlord', isSuspended: false });
+    const req = requestWith({ id: String(userId), role: 'student', sid: sessionId });
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await protect(req, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual(expect.objectContaining({ id: String(userId), sid: sessionId, role: 'landlord' }));
+  });
+
+  it('bloque un compte suspendu même avec une session active', async () => {
+    jest.spyOn(tokenService, 'isSessionActive').mockResolvedValue(true);
+    mockUser({ role: 'student', isSuspended: true });
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await protect(requestWith({ id: String(userId), role: 'student', sid: sessionId }), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
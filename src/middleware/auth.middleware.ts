@@ -1,12 +1,14 @@
 // src/middleware/auth.middleware.ts
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { User } from '../models';
+import { getJwtSecret, isSessionActive } from '../services/token.service';
 
 export interface AuthRequest extends Request {
   user?: any;
 }
 
-export const protect = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const protect = async (req: AuthRequest, res: Response, next: NextFunction) => {
   let token;
   
   if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
@@ -20,16 +22,50 @@ export const protect = (req: AuthRequest, res: Response, next: NextFunction) =>
     });
   }
   
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'votre_secret_jwt');
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, getJwtSecret());
   } catch (error) {
     return res.status(401).json({
       success: false,
       message: 'Non autorisé, token invalide'
     });
   }
+  
+  try {
+    // Les tokens sans session (ancien format) ou dont la session est révoquée sont refusés
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Non autorisé, session expirée ou révoquée'
+      });
+    }
+    
+    // Le rôle est relu en base pour refléter immédiatement les changements faits par un admin
+    const user = await User.findById(decoded.id).select('role isSuspended');
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Non autorisé, utilisateur introuvable'
+      });
+    }
+    
+    if (user.isSuspended) {
+      return res.status(403).json({
+        success: false,
+        message: 'Compte suspendu, contactez l\'administration'
+      });
+    }
+    
+    req.user = { ...decoded, role: user.role };
+    next();
+  } catch (error) {
+    console.error('Erreur protect:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de l\'authentification'
+    });
+  }
 };
 
 export const authorize = (...roles: string[]) => {
@@ -42,6 +78,7 @@ export const authorize = (...roles: string[]) => {
     }
     
     if (!roles.includes(req.user.role)) {
+      console.warn(`⛔ Accès refusé: ${req.user.role} (${req.user.id}) sur ${req.method} ${req.originalUrl}`);
       return res.status(403).json({
         success: false,
         message: `Role ${req.user.role} non autorisé à accéder à cette ressource`
@@ -50,4 +87,79 @@ export const authorize = (...roles: string[]) => {
     
     next();
   };
+};
+
+// Exige une adresse email vérifiée (les admins ne sont pas concernés)
+export const requireVerified = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Non autorisé'
+    });
+  }
+  
+  if (req.user.role === 'admin') {
+    return next();
+  }
+  
+  try {
+    const user = await User.findById(req.user.id).select('isVerified');
+    
+    if (!user || !user.isVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Veuillez vérifier votre adresse email avant d\'effectuer cette action'
+      });
+    }
+    
+    next();
+  } catch (error) {
+    console.error('Erreur requireVerified:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Erreur serveur lors de la vérification du compte'
+    });
+  }
+};
+
+// Limite un membre du personnel (establishment_staff) à son propre établissement
+// Les admins ont accès à tous les établissements
+export const authorizeEstablishment = (
+  getEstablishmentId: (req: AuthRequest) => string | undefined = (req) => req.params.id
+) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Non autorisé'
+      });
+    }
+    
+    if (req.user.role === 'admin') {
+      return next();
+    }
+    
+    try {
+      const establishmentId = getEstablishmentId(req);
+      const user = req.user.role === 'establishment_staff'
+        ? await User.findById(req.user.id).select('establishment')
+        : null;
+      
+      if (!user?.establishment || !establishmentId || user.establishment.toString() !== establishmentId) {
+        console.warn(`⛔ Accès refusé: ${req.user.role} (${req.user.id}) sur ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({
+          success: false,
+          message: 'Vous n\'êtes pas autorisé à gérer cet établissement'
+        });
+      }
+      
+      next();
+    } catch (error) {
+      console.error('Erreur authorizeEstablishment:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Erreur serveur lors de la vérification des droits'
+      });
+    }
+  };
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+// src/models/AdmissionEvent.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const ADMISSION_EVENT_TYPES = ['application_window', 'entrance_exam', 'open_day', 'results'] as const;
+
+export interface IAdmissionEvent extends Document {
+  establishment: mongoose.Types.ObjectId;
+  program?: mongoose.Types.ObjectId; // Formation concernée, si l'événement ne vise pas tout l'établissement
+  type: typeof ADMISSION_EVENT_TYPES[number];
+  title: string;
+  description?: string;
+  startDate: Date;
+  endDate: Date; // Égale à startDate pour un événement ponctuel
+  allDay: boolean;
+  location?: string;
+  url?: string;
+  isCancelled: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+}
+
+const AdmissionEventSchema = new Schema({
+  establishment: { type: Schema.Types.ObjectId, ref: 'Establishment', required: true },
+  program: { type: Schema.Types.ObjectId, ref: 'Program' },
+  type: { type: String, required: true, enum: ADMISSION_EVENT_TYPES },
+  title: { type: String, required: true, trim: true, maxlength: 200 },
+  description: { type: String, maxlength: 3000 },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date },
+  allDay: { type: Boolean, default: true },
+  location: { type: String },
+  url: { type: String },
+  isCancelled: { type: Boolean, default: false },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, { timestamps: true });
+
+AdmissionEventSchema.pre('validate', function () {
+  if (!this.endDate) this.endDate = this.startDate;
+  if (this.startDate && this.endDate < this.startDate) {
+    this.invalidate('endDate', 'La date de fin doit être postérieure à la date de début');
+  }
+});
+
+AdmissionEventSchema.index({ establishment: 1, endDate: 1 });
+AdmissionEventSchema.index({ endDate: 1, type: 1 });
+
+export default mongoose.model<IAdmissionEvent>('AdmissionEvent', AdmissionEventSchema);
\ No newline at end of file
@@ -0,0 +1,70 @@
+// src/models/Application.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const APPLICATION_STATUSES = ['draft', 'submitted', 'interview', 'accepted', 'rejected', 'waitlisted'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+// Transitions autorisées : le brouillon est soumis par l'étudiant, la suite est décidée par l'établissement
+export const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['interview', 'accepted', 'rejected', 'waitlisted'],
+  interview: ['accepted', 'rejected', 'waitlisted'],
+  waitlisted: ['accepted', 'rejected'],
+  accepted: [],
+  rejected: []
+};
+
+export interface IApplication extends Document {
+  user: mongoose.Types.ObjectId;
+  establishment: mongoose.Types.ObjectId;
+  program?: mongoose.Types.ObjectId; // Absent pour une candidature à l'établissement en général
+  status: ApplicationStatus;
+  statusHistory: {
+    status: ApplicationStatus;
+    changedBy?: mongoose.Types.ObjectId;
+    note?: string;
+    changedAt: Date;
+  }[];
+  documents: {
+    fileId: string;
+    filename: string;
+    originalName: string;
+    size: number;
+    mimetype: string;
+  }[];
+  deadline?: Date; // Date limite de dépôt (reprise de la période de candidature si non renseignée)
+  notes?: string; // Notes personnelles de l'étudiant, non visibles par l'établissement
+  submittedAt?: Date;
+  remindersSent: number[]; // Rappels déjà envoyés (nombre de jours avant la date limite)
+}
+
+const ApplicationSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  establishment: { type: Schema.Types.ObjectId, ref: 'Establishment', required: true },
+  program: { type: Schema.Types.ObjectId, ref: 'Program' },
+  status: { type: String, required: true, enum: APPLICATION_STATUSES, default: 'draft' },
+  statusHistory: [{
+    status: { type: String, required: true, enum: APPLICATION_STATUSES },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    note: { type: String, maxlength: 1000 },
+    changedAt: { type: Date, default: Date.now }
+  }],
+  documents: [{
+    fileId: { type: String, required: true },
+    filename: { type: String, required: true },
+    originalName: { type: String },
+    size: { type: Number },
+    mimetype: { type: String }
+  }],
+  deadline: { type: Date },
+  notes: { type: String, maxlength: 3000 },
+  submittedAt: { type: Date },
+  remindersSent: { type: [Number], default: [] }
+}, { timestamps: true });
+
+// Une seule candidature par étudiant et par formation (ou par établissement sans formation)
+ApplicationSchema.index({ user: 1, establishment: 1, program: 1 }, { unique: true });
+ApplicationSchema.index({ establishment: 1, status: 1, submittedAt: -1 });
+ApplicationSchema.index({ status: 1, deadline: 1 });
+
+export default mongoose.model<IApplication>('Application', ApplicationSchema);
\ No newline at end of file
@@ -0,0 +1,23 @@
+// src/models/AuditLog.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  actor: mongoose.Types.ObjectId;
+  action: string;
+  targetType: string;
+  targetId?: mongoose.Types.ObjectId;
+  details?: Record<string, any>;
+  ip?: string;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema({
+  actor: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  action: { type: String, required: true, index: true },
+  targetType: { type: String, required: true },
+  targetId: { type: Schema.Types.ObjectId, index: true },
+  details: { type: Schema.Types.Mixed },
+  ip: { type: String }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
\ No newline at end of file
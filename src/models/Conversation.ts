@@ -0,0 +1,41 @@
+// src/models/Conversation.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ConversationRole = 'student' | 'landlord';
+
+export interface IConversation extends Document {
+  housing: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  landlord: mongoose.Types.ObjectId; // Propriétaire de l'annonce, ou compte correspondant au contact
+  unread: {
+    student: number;
+    landlord: number;
+  };
+  lastMessageAt?: Date;
+  lastMessagePreview?: string;
+  status: 'open' | 'closed'; // Fermée par un admin (arnaque, harcèlement...)
+  closedBy?: mongoose.Types.ObjectId;
+  closedReason?: string;
+}
+
+const ConversationSchema = new Schema({
+  housing: { type: Schema.Types.ObjectId, ref: 'Housing', required: true },
+  student: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  landlord: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  unread: {
+    student: { type: Number, default: 0 },
+    landlord: { type: Number, default: 0 }
+  },
+  lastMessageAt: { type: Date },
+  lastMessagePreview: { type: String },
+  status: { type: String, enum: ['open', 'closed'], default: 'open' },
+  closedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  closedReason: { type: String }
+}, { timestamps: true });
+
+// Une seule conversation par étudiant et par annonce
+ConversationSchema.index({ housing: 1, student: 1 }, { unique: true });
+ConversationSchema.index({ student: 1, lastMessageAt: -1 });
+ConversationSchema.index({ landlord: 1, lastMessageAt: -1 });
+
+export default mongoose.model<IConversation>('Conversation', ConversationSchema);
\ No newline at end of file
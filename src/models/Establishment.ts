@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { geoLocationPlugin, GeoPoint } from '../utils/geo';
 
 export interface IEstablishment extends Document {
   name: string;
@@ -6,7 +7,14 @@ export interface IEstablishment extends Document {
   location: string;
   description: string;
   studentsCount: number;
-  rating: number;
+  rating: number; // Moyenne des avis publiés, maintenue automatiquement
+  reviewsCount: number;
+  ratingBreakdown: {
+    teaching: number;
+    facilities: number;
+    administration: number;
+    employability: number;
+  };
   programs: string[];
   images: string[];
   isCAMESRecognized: boolean;
@@ -19,6 +27,7 @@ export interface IEstablishment extends Document {
     lat: number;
     lng: number;
   };
+  geoLocation?: GeoPoint; // Calculé à partir de `coordinates` (index 2dsphere)
 }
 
 const EstablishmentSchema = new Schema({
@@ -28,6 +37,13 @@ const EstablishmentSchema = new Schema({
   description: { type: String, required: true },
   studentsCount: { type: Number, default: 0 },
   rating: { type: Number, min: 0, max: 5, default: 0 },
+  reviewsCount: { type: Number, default: 0 },
+  ratingBreakdown: {
+    teaching: { type: Number, default: 0 },
+    facilities: { type: Number, default: 0 },
+    administration: { type: Number, default: 0 },
+    employability: { type: Number, default: 0 }
+  },
   programs: [{ type: String }],
   images: [{ type: String }],
   isCAMESRecognized: { type: Boolean, default: false },
@@ -37,9 +53,21 @@ const EstablishmentSchema = new Schema({
     website: { type: String }
   },
   coordinates: {
-    lat: { type: Number },
-    lng: { type: Number }
+    lat: { type: Number, min: -90, max: 90 },
+    lng: { type: Number, min: -180, max: 180 }
   }
 }, { timestamps: true });
 
+EstablishmentSchema.plugin(geoLocationPlugin);
+
+// Recherche plein texte (insensible aux accents) : nom > formations > ville > description
+EstablishmentSchema.index(
+  { name: 'text', programs: 'text', location: 'text', description: 'text' },
+  {
+    name: 'establishment_text_search',
+    weights: { name: 10, programs: 5, location: 3, description: 1 },
+    default_language: 'french'
+  }
+);
+
 export default mongoose.model<IEstablishment>('Establishment', EstablishmentSchema);
\ No newline at end of file
@@ -0,0 +1,36 @@
+// src/models/FavoriteList.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFavoriteListItem {
+  _id: mongoose.Types.ObjectId;
+  itemType: 'Establishment' | 'Housing';
+  item: mongoose.Types.ObjectId;
+  note?: string;
+  addedAt: Date;
+}
+
+export interface IFavoriteList extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  items: mongoose.Types.DocumentArray<IFavoriteListItem & mongoose.Types.Subdocument>;
+}
+
+const FavoriteListItemSchema = new Schema({
+  itemType: { type: String, required: true, enum: ['Establishment', 'Housing'] },
+  item: { type: Schema.Types.ObjectId, required: true, refPath: 'items.itemType' },
+  note: { type: String, maxlength: 1000 },
+  addedAt: { type: Date, default: Date.now }
+});
+
+const FavoriteListSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  description: { type: String, maxlength: 500 },
+  items: [FavoriteListItemSchema]
+}, { timestamps: true });
+
+// Un nom de liste est unique pour un même utilisateur
+FavoriteListSchema.index({ user: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IFavoriteList>('FavoriteList', FavoriteListSchema);
\ No newline at end of file
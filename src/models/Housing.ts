@@ -1,10 +1,13 @@
 // src/models/Housing.ts
 import mongoose, { Schema, Document } from 'mongoose';
+import { geoLocationPlugin, GeoPoint } from '../utils/geo';
+
+export const HOUSING_TYPES = ['studio', 'colocation', 'university'] as const;
 
 export interface IHousing extends Document {
   title: string;
   description: string;
-  type: 'studio' | 'colocation' | 'university';
+  type: typeof HOUSING_TYPES[number];
   location: string;
   neighborhood: string;
   price: number;
@@ -24,12 +27,18 @@ export interface IHousing extends Document {
     hasInternet: boolean;
     hasKitchen: boolean;
   };
+  owner?: mongoose.Types.ObjectId; // Propriétaire (landlord) ayant publié l'annonce
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+  geoLocation?: GeoPoint; // Calculé à partir de `coordinates` (index 2dsphere)
 }
 
 const HousingSchema = new Schema({
   title: { type: String, required: true },
   description: { type: String, required: true },
-  type: { type: String, required: true, enum: ['studio', 'colocation', 'university'] },
+  type: { type: String, required: true, enum: HOUSING_TYPES },
   location: { type: String, required: true },
   neighborhood: { type: String, required: true },
   price: { type: Number, required: true },
@@ -48,7 +57,24 @@ const HousingSchema = new Schema({
     hasFurniture: { type: Boolean, default: false },
     hasInternet: { type: Boolean, default: false },
     hasKitchen: { type: Boolean, default: false }
+  },
+  owner: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+  coordinates: {
+    lat: { type: Number, min: -90, max: 90 },
+    lng: { type: Number, min: -180, max: 180 }
   }
 }, { timestamps: true });
 
+HousingSchema.plugin(geoLocationPlugin);
+
+// Recherche plein texte (insensible aux accents) : titre > quartier/ville > équipements > description
+HousingSchema.index(
+  { title: 'text', neighborhood: 'text', location: 'text', amenities: 'text', description: 'text' },
+  {
+    name: 'housing_text_search',
+    weights: { title: 10, neighborhood: 6, location: 6, amenities: 3, description: 1 },
+    default_language: 'french'
+  }
+);
+
 export default mongoose.model<IHousing>('Housing', HousingSchema);
\ No newline at end of file
@@ -0,0 +1,53 @@
+// src/models/LandlordApplication.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Bucket GridFS des pièces justificatives
+export const LANDLORD_DOCUMENTS_BUCKET = 'landlord_documents';
+
+export interface ILandlordApplication extends Document {
+  user: mongoose.Types.ObjectId;
+  status: 'pending' | 'approved' | 'rejected';
+  identity: {
+    fullName: string;
+    idType: 'cni' | 'passport' | 'residence_permit';
+    idNumber: string;
+    phone: string;
+    address: string;
+  };
+  message?: string;
+  documents: {
+    fileId: string;
+    filename: string;
+    originalName: string;
+    size: number;
+    mimetype: string;
+  }[];
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+}
+
+const LandlordApplicationSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  status: { type: String, required: true, enum: ['pending', 'approved', 'rejected'], default: 'pending', index: true },
+  identity: {
+    fullName: { type: String, required: true },
+    idType: { type: String, required: true, enum: ['cni', 'passport', 'residence_permit'] },
+    idNumber: { type: String, required: true },
+    phone: { type: String, required: true },
+    address: { type: String, required: true }
+  },
+  message: { type: String },
+  documents: [{
+    fileId: { type: String, required: true },
+    filename: { type: String, required: true },
+    originalName: { type: String },
+    size: { type: Number },
+    mimetype: { type: String }
+  }],
+  reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reviewedAt: { type: Date },
+  rejectionReason: { type: String }
+}, { timestamps: true });
+
+export default mongoose.model<ILandlordApplication>('LandlordApplication', LandlordApplicationSchema);
\ No newline at end of file
@@ -0,0 +1,46 @@
+// src/models/Message.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IMessage extends Document {
+  conversation: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  body?: string;
+  attachments: {
+    fileId: string;
+    filename: string;
+    originalName: string;
+    size: number;
+    mimetype: string;
+  }[];
+  readAt?: Date; // Lu par le destinataire
+  isHidden: boolean; // Masqué par la modération
+  hiddenBy?: mongoose.Types.ObjectId;
+  hiddenReason?: string;
+}
+
+const MessageSchema = new Schema({
+  conversation: { type: Schema.Types.ObjectId, ref: 'Conversation', required: true },
+  sender: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  body: { type: String, trim: true, maxlength: 5000 },
+  attachments: [{
+    fileId: { type: String, required: true },
+    filename: { type: String, required: true },
+    originalName: { type: String },
+    size: { type: Number },
+    mimetype: { type: String }
+  }],
+  readAt: { type: Date },
+  isHidden: { type: Boolean, default: false },
+  hiddenBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  hiddenReason: { type: String }
+}, { timestamps: true });
+
+MessageSchema.pre('validate', function () {
+  if (!this.body && this.attachments.length === 0) {
+    this.invalidate('body', 'Le message est vide');
+  }
+});
+
+MessageSchema.index({ conversation: 1, createdAt: -1 });
+
+export default mongoose.model<IMessage>('Message', MessageSchema);
\ No newline at end of file
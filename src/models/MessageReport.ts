@@ -0,0 +1,33 @@
+// src/models/MessageReport.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const REPORT_REASONS = ['scam', 'harassment', 'spam', 'inappropriate', 'other'] as const;
+
+export interface IMessageReport extends Document {
+  conversation: mongoose.Types.ObjectId;
+  message?: mongoose.Types.ObjectId; // Message précis signalé, sinon toute la conversation
+  reporter: mongoose.Types.ObjectId;
+  reason: typeof REPORT_REASONS[number];
+  details?: string;
+  status: 'open' | 'resolved' | 'dismissed';
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+}
+
+const MessageReportSchema = new Schema({
+  conversation: { type: Schema.Types.ObjectId, ref: 'Conversation', required: true },
+  message: { type: Schema.Types.ObjectId, ref: 'Message' },
+  reporter: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  reason: { type: String, required: true, enum: REPORT_REASONS },
+  details: { type: String, maxlength: 2000 },
+  status: { type: String, enum: ['open', 'resolved', 'dismissed'], default: 'open' },
+  resolvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  resolvedAt: { type: Date },
+  resolutionNote: { type: String }
+}, { timestamps: true });
+
+MessageReportSchema.index({ status: 1, createdAt: 1 });
+MessageReportSchema.index({ conversation: 1 });
+
+export default mongoose.model<IMessageReport>('MessageReport', MessageReportSchema);
\ No newline at end of file
@@ -0,0 +1,29 @@
+// src/models/Notification.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['saved_search_match'] as const;
+
+export interface INotification extends Document {
+  user: mongoose.Types.ObjectId;
+  type: typeof NOTIFICATION_TYPES[number];
+  title: string;
+  message: string;
+  link?: string; // Chemin côté frontend (ex: /housing/<id>)
+  data?: Record<string, any>;
+  readAt?: Date;
+}
+
+const NotificationSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  type: { type: String, required: true, enum: NOTIFICATION_TYPES },
+  title: { type: String, required: true },
+  message: { type: String, required: true },
+  link: { type: String },
+  data: { type: Schema.Types.Mixed },
+  readAt: { type: Date }
+}, { timestamps: true });
+
+NotificationSchema.index({ user: 1, createdAt: -1 });
+NotificationSchema.index({ user: 1, readAt: 1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
\ No newline at end of file
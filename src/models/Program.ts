@@ -0,0 +1,48 @@
+// src/models/Program.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const PROGRAM_DEGREES = ['Licence', 'Master', 'Doctorat', 'BTS'] as const;
+
+export interface IProgram extends Document {
+  establishment: mongoose.Types.ObjectId;
+  name: string;
+  degree: typeof PROGRAM_DEGREES[number];
+  field: string; // Domaine d'études (Informatique, Droit, Gestion...)
+  language: string; // Langue d'enseignement
+  durationYears: number;
+  annualTuition: number; // Frais de scolarité annuels en FCFA (XOF)
+  admissionRequirements: string[];
+  description?: string;
+  isActive: boolean;
+}
+
+const ProgramSchema = new Schema({
+  establishment: { type: Schema.Types.ObjectId, ref: 'Establishment', required: true, index: true },
+  name: { type: String, required: true, trim: true },
+  degree: { type: String, required: true, enum: PROGRAM_DEGREES },
+  field: { type: String, required: true, trim: true },
+  language: { type: String, default: 'Français' },
+  durationYears: { type: Number, required: true, min: 0.5, max: 10 },
+  annualTuition: { type: Number, required: true, min: 0 },
+  admissionRequirements: [{ type: String }],
+  description: { type: String },
+  isActive: { type: Boolean, default: true }
+}, { timestamps: true });
+
+// Un même établissement ne propose pas deux fois le même diplôme sous le même nom
+ProgramSchema.index({ establishment: 1, name: 1, degree: 1 }, { unique: true });
+ProgramSchema.index({ degree: 1, field: 1, annualTuition: 1 });
+
+// Recherche plein texte : nom > domaine > description
+// `language` est la langue d'enseignement, pas celle du texte : on désactive son interprétation par l'index
+ProgramSchema.index(
+  { name: 'text', field: 'text', description: 'text' },
+  {
+    name: 'program_text_search',
+    weights: { name: 10, field: 5, description: 1 },
+    default_language: 'french',
+    language_override: 'textSearchLanguage'
+  }
+);
+
+export default mongoose.model<IProgram>('Program', ProgramSchema);
\ No newline at end of file
@@ -0,0 +1,55 @@
+// src/models/Review.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const REVIEW_CRITERIA = ['teaching', 'facilities', 'administration', 'employability'] as const;
+
+export interface IReview extends Document {
+  establishment: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  scores: {
+    teaching: number;
+    facilities: number;
+    administration: number;
+    employability: number;
+  };
+  overall: number; // Moyenne des critères, calculée à l'enregistrement
+  title?: string;
+  comment: string;
+  status: 'published' | 'hidden';
+  moderationReason?: string;
+  moderatedBy?: mongoose.Types.ObjectId;
+  moderatedAt?: Date;
+}
+
+const scoreField = { type: Number, required: true, min: 1, max: 5 };
+
+const ReviewSchema = new Schema({
+  establishment: { type: Schema.Types.ObjectId, ref: 'Establishment', required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  scores: {
+    teaching: scoreField,
+    facilities: scoreField,
+    administration: scoreField,
+    employability: scoreField
+  },
+  overall: { type: Number, min: 1, max: 5 },
+  title: { type: String, trim: true, maxlength: 120 },
+  comment: { type: String, required: true, trim: true, minlength: 10, maxlength: 3000 },
+  status: { type: String, enum: ['published', 'hidden'], default: 'published', index: true },
+  moderationReason: { type: String },
+  moderatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  moderatedAt: { type: Date }
+}, { timestamps: true });
+
+// Un seul avis par utilisateur et par établissement
+ReviewSchema.index({ establishment: 1, user: 1 }, { unique: true });
+ReviewSchema.index({ establishment: 1, status: 1, createdAt: -1 });
+
+ReviewSchema.pre('save', function (next) {
+  const scores: any = this.scores;
+  const total = REVIEW_CRITERIA.reduce((sum, criterion) => sum + Number(scores[criterion] || 0), 0);
+  this.overall = Math.round((total / REVIEW_CRITERIA.length) * 10) / 10;
+  next();
+});
+
+export default mongoose.model<IReview>('Review', ReviewSchema);
\ No newline at end of file
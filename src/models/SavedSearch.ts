@@ -0,0 +1,61 @@
+// src/models/SavedSearch.ts
+import mongoose, { Schema, Document } from 'mongoose';
+import { HOUSING_TYPES } from './Housing';
+
+// instant : un email par nouveau logement ; daily / weekly : récapitulatif ; never : notifications in-app seulement
+export const EMAIL_FREQUENCIES = ['instant', 'daily', 'weekly', 'never'] as const;
+
+// Ce qui déclenche une alerte : annonce publiée, de nouveau disponible, ou modifiée (prix, type, ville...)
+export const SAVED_SEARCH_MATCH_REASONS = ['published', 'available_again', 'updated'] as const;
+export type SavedSearchMatchReason = typeof SAVED_SEARCH_MATCH_REASONS[number];
+
+export interface ISavedSearch extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  filters: {
+    type?: typeof HOUSING_TYPES[number];
+    location?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    bedrooms?: number;
+  };
+  alertsEnabled: boolean;
+  emailFrequency: typeof EMAIL_FREQUENCIES[number];
+  notifiedHousing: mongoose.Types.ObjectId[]; // Logements déjà signalés (pas de double alerte)
+  pendingDigest: mongoose.Types.ObjectId[]; // Logements en attente du prochain récapitulatif
+  lastDigestAt?: Date;
+  lastMatchAt?: Date;
+  matchCount: number;
+}
+
+const SavedSearchSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  filters: {
+    type: { type: String, enum: HOUSING_TYPES },
+    location: { type: String, trim: true, maxlength: 100 },
+    minPrice: { type: Number, min: 0 },
+    maxPrice: { type: Number, min: 0 },
+    bedrooms: { type: Number, min: 0 }
+  },
+  alertsEnabled: { type: Boolean, default: true },
+  emailFrequency: { type: String, enum: EMAIL_FREQUENCIES, default: 'daily' },
+  notifiedHousing: [{ type: Schema.Types.ObjectId, ref: 'Housing' }],
+  pendingDigest: [{ type: Schema.Types.ObjectId, ref: 'Housing' }],
+  lastDigestAt: { type: Date },
+  lastMatchAt: { type: Date },
+  matchCount: { type: Number, default: 0 }
+}, { timestamps: true });
+
+SavedSearchSchema.pre('validate', function () {
+  const { minPrice, maxPrice } = this.filters || {};
+  if (minPrice != null && maxPrice != null && minPrice > maxPrice) {
+    this.invalidate('filters.maxPrice', 'Le prix maximum doit être supérieur au prix minimum');
+  }
+});
+
+// Un nom de recherche est unique pour un même utilisateur
+SavedSearchSchema.index({ user: 1, name: 1 }, { unique: true });
+SavedSearchSchema.index({ alertsEnabled: 1, 'filters.type': 1 });
+
+export default mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
\ No newline at end of file
@@ -0,0 +1,50 @@
+// src/models/Scholarship.ts
+import mongoose, { Schema, Document } from 'mongoose';
+import { PROGRAM_DEGREES } from './Program';
+
+export const SCHOLARSHIP_PROVIDER_TYPES = ['government', 'establishment', 'foundation', 'international', 'company'] as const;
+export const SCHOLARSHIP_AMOUNT_PERIODS = ['one_time', 'monthly', 'yearly'] as const;
+
+// Les listes d'éligibilité vides signifient "sans restriction"
+export interface IScholarship extends Document {
+  title: string;
+  provider: string; // Organisme financeur (État du Sénégal, Campus France, fondation...)
+  providerType: typeof SCHOLARSHIP_PROVIDER_TYPES[number];
+  description: string;
+  eligibleNationalities: string[];
+  levels: typeof PROGRAM_DEGREES[number][];
+  fields: string[]; // Domaines d'études concernés
+  amount?: number; // Montant en FCFA (XOF), absent si variable
+  amountPeriod: typeof SCHOLARSHIP_AMOUNT_PERIODS[number];
+  coverage?: string; // Ce qui est pris en charge (scolarité, logement, transport...)
+  deadline: Date;
+  applicationUrl?: string;
+  establishments: mongoose.Types.ObjectId[];
+  programs: mongoose.Types.ObjectId[];
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+}
+
+const ScholarshipSchema = new Schema({
+  title: { type: String, required: true, trim: true },
+  provider: { type: String, required: true, trim: true },
+  providerType: { type: String, enum: SCHOLARSHIP_PROVIDER_TYPES, default: 'government' },
+  description: { type: String, required: true },
+  eligibleNationalities: [{ type: String, trim: true }],
+  levels: [{ type: String, enum: PROGRAM_DEGREES }],
+  fields: [{ type: String, trim: true }],
+  amount: { type: Number, min: 0 },
+  amountPeriod: { type: String, enum: SCHOLARSHIP_AMOUNT_PERIODS, default: 'yearly' },
+  coverage: { type: String },
+  deadline: { type: Date, required: true },
+  applicationUrl: { type: String },
+  establishments: [{ type: Schema.Types.ObjectId, ref: 'Establishment' }],
+  programs: [{ type: Schema.Types.ObjectId, ref: 'Program' }],
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, { timestamps: true });
+
+ScholarshipSchema.index({ isActive: 1, deadline: 1 });
+ScholarshipSchema.index({ establishments: 1 });
+
+export default mongoose.model<IScholarship>('Scholarship', ScholarshipSchema);
\ No newline at end of file
@@ -0,0 +1,29 @@
+// src/models/Session.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // Détection de réutilisation d'un refresh token déjà consommé
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+const SessionSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  refreshTokenHash: { type: String, required: true, unique: true },
+  previousRefreshTokenHash: { type: String, index: true },
+  userAgent: { type: String },
+  ip: { type: String },
+  lastUsedAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date }
+}, { timestamps: true });
+
+// Suppression automatique des sessions expirées par MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
\ No newline at end of file
@@ -1,18 +1,30 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PROGRAM_DEGREES } from './Program';
 
 export interface IUser extends Document {
   email: string;
   password: string;
   firstName: string;
   lastName: string;
-  role: 'student' | 'admin' | 'landlord';
+  role: 'student' | 'admin' | 'landlord' | 'establishment_staff';
   phone?: string;
   nationality?: string;
+  studyLevel?: typeof PROGRAM_DEGREES[number]; // Niveau d'études visé (filtre les bourses)
+  establishment?: mongoose.Types.ObjectId; // Établissement rattaché (rôle establishment_staff)
   favorites: {
     establishments: mongoose.Types.ObjectId[];
     housing: mongoose.Types.ObjectId[];
   };
   isVerified: boolean;
+  verificationTokenHash?: string;
+  verificationTokenExpires?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpires?: Date;
+  passwordChangedAt?: Date;
+  isSuspended: boolean;
+  suspendedAt?: Date;
+  suspensionReason?: string;
+  calendarTokenHash?: string; // Jeton du flux iCalendar personnel (abonnement sans en-tête d'authentification)
 }
 
 const UserSchema = new Schema({
@@ -20,14 +32,25 @@ const UserSchema = new Schema({
   password: { type: String, required: true },
   firstName: { type: String, required: true },
   lastName: { type: String, required: true },
-  role: { type: String, required: true, enum: ['student', 'admin', 'landlord'], default: 'student' },
+  role: { type: String, required: true, enum: ['student', 'admin', 'landlord', 'establishment_staff'], default: 'student' },
   phone: { type: String },
-  nationality: { type: String },
+  nationality: { type: String, trim: true },
+  studyLevel: { type: String, enum: PROGRAM_DEGREES },
+  establishment: { type: Schema.Types.ObjectId, ref: 'Establishment' },
   favorites: {
     establishments: [{ type: Schema.Types.ObjectId, ref: 'Establishment' }],
     housing: [{ type: Schema.Types.ObjectId, ref: 'Housing' }]
   },
-  isVerified: { type: Boolean, default: false }
+  isVerified: { type: Boolean, default: false },
+  verificationTokenHash: { type: String, select: false, index: true },
+  verificationTokenExpires: { type: Date, select: false },
+  passwordResetTokenHash: { type: String, select: false, index: true },
+  passwordResetExpires: { type: Date, select: false },
+  passwordChangedAt: { type: Date },
+  isSuspended: { type: Boolean, default: false },
+  suspendedAt: { type: Date },
+  suspensionReason: { type: String },
+  calendarTokenHash: { type: String, select: false, index: true, sparse: true }
 }, { timestamps: true });
 
 export default mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
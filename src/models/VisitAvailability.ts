@@ -0,0 +1,43 @@
+// src/models/VisitAvailability.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Heure locale "HH:mm" (Dakar, UTC+0 toute l'année)
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface IWeeklySlot {
+  dayOfWeek: number; // 0 = dimanche ... 6 = samedi
+  startTime: string;
+  endTime: string;
+}
+
+export interface IVisitAvailability extends Document {
+  landlord: mongoose.Types.ObjectId;
+  weeklySlots: IWeeklySlot[];
+  unavailableDates: Date[]; // Jours sans visite (congés, déplacements...)
+  visitDuration: number; // Durée d'une visite, en minutes
+  minNoticeHours: number; // Délai minimum entre la demande et la visite
+}
+
+const WeeklySlotSchema = new Schema({
+  dayOfWeek: { type: Number, required: true, min: 0, max: 6 },
+  startTime: { type: String, required: true, match: [TIME_PATTERN, 'Heure invalide (format HH:mm)'] },
+  endTime: { type: String, required: true, match: [TIME_PATTERN, 'Heure invalide (format HH:mm)'] }
+}, { _id: false });
+
+const VisitAvailabilitySchema = new Schema({
+  landlord: { type: Schema.Types.ObjectId, ref: 'User', required: true, unique: true },
+  weeklySlots: { type: [WeeklySlotSchema], default: [] },
+  unavailableDates: { type: [Date], default: [] },
+  visitDuration: { type: Number, default: 30, min: 15, max: 180 },
+  minNoticeHours: { type: Number, default: 12, min: 0, max: 168 }
+}, { timestamps: true });
+
+VisitAvailabilitySchema.pre('validate', function () {
+  this.weeklySlots.forEach((slot, index) => {
+    if (slot.startTime >= slot.endTime) {
+      this.invalidate(`weeklySlots.${index}.endTime`, 'L\'heure de fin doit être postérieure à l\'heure de début');
+    }
+  });
+});
+
+export default mongoose.model<IVisitAvailability>('VisitAvailability', VisitAvailabilitySchema);
\ No newline at end of file
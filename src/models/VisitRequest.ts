@@ -0,0 +1,55 @@
+// src/models/VisitRequest.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+// pending : en attente du propriétaire ; rescheduled : nouveau créneau proposé, en attente de l'étudiant
+export const VISIT_STATUSES = ['pending', 'rescheduled', 'confirmed', 'declined', 'cancelled'] as const;
+export type VisitStatus = typeof VISIT_STATUSES[number];
+
+export interface IVisitSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface IVisitRequest extends Document {
+  housing: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  landlord: mongoose.Types.ObjectId; // Propriétaire de l'annonce au moment de la demande
+  proposedSlots: IVisitSlot[]; // Créneaux proposés par l'étudiant, par ordre de préférence
+  status: VisitStatus;
+  scheduledStart?: Date; // Créneau retenu (confirmé ou proposé par le propriétaire)
+  scheduledEnd?: Date;
+  message?: string;
+  response?: string; // Message du propriétaire (report, refus...)
+  respondedAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  cancelReason?: string;
+}
+
+const VisitSlotSchema = new Schema({
+  start: { type: Date, required: true },
+  end: { type: Date, required: true }
+}, { _id: false });
+
+const VisitRequestSchema = new Schema({
+  housing: { type: Schema.Types.ObjectId, ref: 'Housing', required: true },
+  student: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  landlord: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  proposedSlots: {
+    type: [VisitSlotSchema],
+    validate: [(slots: IVisitSlot[]) => slots.length >= 1 && slots.length <= 3, 'Proposez entre 1 et 3 créneaux']
+  },
+  status: { type: String, required: true, enum: VISIT_STATUSES, default: 'pending' },
+  scheduledStart: { type: Date },
+  scheduledEnd: { type: Date },
+  message: { type: String, maxlength: 1000 },
+  response: { type: String, maxlength: 1000 },
+  respondedAt: { type: Date },
+  cancelledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  cancelReason: { type: String, maxlength: 500 }
+}, { timestamps: true });
+
+VisitRequestSchema.index({ landlord: 1, status: 1, scheduledStart: 1 });
+VisitRequestSchema.index({ student: 1, status: 1, scheduledStart: 1 });
+VisitRequestSchema.index({ housing: 1, student: 1, status: 1 });
+
+export default mongoose.model<IVisitRequest>('VisitRequest', VisitRequestSchema);
\ No newline at end of file
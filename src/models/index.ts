@@ -1,9 +1,41 @@
 import Establishment from './Establishment';
 import Housing from './Housing';
 import User from './User';
+import Session from './Session';
+import AuditLog from './AuditLog';
+import LandlordApplication from './LandlordApplication';
+import FavoriteList from './FavoriteList';
+import Program from './Program';
+import Review from './Review';
+import Scholarship from './Scholarship';
+import AdmissionEvent from './AdmissionEvent';
+import Application from './Application';
+import VisitAvailability from './VisitAvailability';
+import VisitRequest from './VisitRequest';
+import Conversation from './Conversation';
+import Message from './Message';
+import MessageReport from './MessageReport';
+import Notification from './Notification';
+import SavedSearch from './SavedSearch';
 
 export {
   Establishment,
   Housing,
-  User
+  User,
+  Session,
+  AuditLog,
+  LandlordApplication,
+  FavoriteList,
+  Program,
+  Review,
+  Scholarship,
+  AdmissionEvent,
+  Application,
+  VisitAvailability,
+  VisitRequest,
+  Conversation,
+  Message,
+  MessageReport,
+  Notification,
+  SavedSearch
 };
\ No newline at end of file
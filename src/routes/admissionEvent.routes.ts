@@ -0,0 +1,23 @@
+// src/routes/admissionEvent.routes.ts
+import express from 'express';
+import {
+  getAdmissionEvents,
+  getFavoriteUpcomingEvents,
+  createCalendarSubscription,
+  revokeCalendarSubscription,
+  getUserCalendar
+} from '../controllers/admissionEvent.controller';
+import { protect } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Routes publiques
+router.get('/', getAdmissionEvents);
+router.get('/calendar/:token.ics', getUserCalendar); // Authentifié par le jeton de l'adresse
+
+// Routes protégées
+router.get('/favorites', protect, getFavoriteUpcomingEvents);
+router.post('/calendar-subscription', protect, createCalendarSubscription);
+router.delete('/calendar-subscription', protect, revokeCalendarSubscription);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,32 @@
+// src/routes/application.routes.ts
+import express from 'express';
+import {
+  createApplication,
+  getMyApplications,
+  getApplicationById,
+  updateApplication,
+  deleteApplication,
+  submitApplication,
+  addApplicationDocuments,
+  deleteApplicationDocument,
+  getApplicationDocument
+} from '../controllers/application.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+import { uploadDocuments } from '../services/storage.service';
+
+const router = express.Router();
+
+// Routes de l'étudiant
+router.post('/', protect, authorize('student'), uploadDocuments('documents'), createApplication);
+router.get('/mine', protect, getMyApplications); // Avant /:id
+router.put('/:id', protect, updateApplication);
+router.delete('/:id', protect, deleteApplication);
+router.patch('/:id/submit', protect, submitApplication);
+router.post('/:id/documents', protect, uploadDocuments('documents'), addApplicationDocuments);
+router.delete('/:id/documents/:fileId', protect, deleteApplicationDocument);
+
+// Étudiant, personnel de l'établissement ou admin
+router.get('/:id', protect, getApplicationById);
+router.get('/:id/documents/:fileId', protect, getApplicationDocument);
+
+export default router;
\ No newline at end of file
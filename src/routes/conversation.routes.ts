@@ -0,0 +1,36 @@
+// src/routes/conversation.routes.ts
+import express from 'express';
+import {
+  getMyConversations,
+  getUnreadCount,
+  getConversationMessages,
+  sendMessage,
+  getMessageAttachment,
+  reportConversation,
+  getConversationsForAdmin,
+  getMessageReports,
+  resolveMessageReport,
+  setConversationStatus
+} from '../controllers/conversation.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+import { uploadDocuments } from '../services/storage.service';
+
+const router = express.Router();
+
+// Routes des participants
+router.get('/', protect, getMyConversations);
+router.get('/unread-count', protect, getUnreadCount);
+
+// Modération (avant /:id)
+router.get('/manage', protect, authorize('admin'), getConversationsForAdmin);
+router.get('/reports', protect, authorize('admin'), getMessageReports);
+router.patch('/reports/:reportId', protect, authorize('admin'), resolveMessageReport);
+router.patch('/:id/status', protect, authorize('admin'), setConversationStatus);
+
+// Participants (et admin en lecture)
+router.get('/:id/messages', protect, getConversationMessages);
+router.post('/:id/messages', protect, uploadDocuments('attachments', 3), sendMessage);
+router.get('/:id/messages/:messageId/attachments/:fileId', protect, getMessageAttachment);
+router.post('/:id/reports', protect, reportConversation);
+
+export default router;
\ No newline at end of file
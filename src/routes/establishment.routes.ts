@@ -9,8 +9,29 @@ import {
   searchEstablishments,
   getEstablishmentStats,
   importEstablishmentsBatch,
+  importEstablishmentsFile,
+  exportEstablishments,
+  compareEstablishments,
   getLocations
 } from '../controllers/establishment.controller';
+import {
+  getEstablishmentPrograms,
+  createProgram,
+  updateProgram,
+  deleteProgram
+} from '../controllers/program.controller';
+import { getEstablishmentReviews, createReview } from '../controllers/review.controller';
+import { getHousingNearEstablishment } from '../controllers/housing.controller';
+import {
+  getEstablishmentEvents,
+  createEstablishmentEvent,
+  updateEstablishmentEvent,
+  deleteEstablishmentEvent,
+  getEstablishmentCalendar
+} from '../controllers/admissionEvent.controller';
+import { getEstablishmentApplications, updateApplicationStatus } from '../controllers/application.controller';
+import { protect, authorize, authorizeEstablishment } from '../middleware/auth.middleware';
+import { uploadSpreadsheet } from '../services/storage.service';
 
 const router = express.Router();
 
@@ -18,13 +39,34 @@ const router = express.Router();
 router.get('/', getEstablishments);
 router.get('/stats', getEstablishmentStats);
 router.get('/locations', getLocations);
+router.get('/export', protect, authorize('admin'), exportEstablishments); // Avant /:id
+router.get('/compare', compareEstablishments); // Avant /:id
 router.get('/search/:keyword', searchEstablishments);
 router.get('/:id', getEstablishmentById);
+router.get('/:id/programs', getEstablishmentPrograms);
+router.get('/:id/reviews', getEstablishmentReviews);
+router.get('/:id/nearby-housing', getHousingNearEstablishment);
+router.get('/:id/events', getEstablishmentEvents);
+router.get('/:id/calendar.ics', getEstablishmentCalendar);
+
+// Avis (étudiants connectés)
+router.post('/:id/reviews', protect, authorize('student'), createReview);
 
 // Routes protégées (pour admin)
-router.post('/', createEstablishment);
-router.put('/:id', updateEstablishment);
-router.delete('/:id', deleteEstablishment);
-router.post('/batch', importEstablishmentsBatch);
+router.post('/', protect, authorize('admin'), createEstablishment);
+router.delete('/:id', protect, authorize('admin'), deleteEstablishment);
+router.post('/batch', protect, authorize('admin'), importEstablishmentsBatch);
+router.post('/import', protect, authorize('admin'), uploadSpreadsheet('file'), importEstablishmentsFile);
+
+// Routes protégées (admin ou personnel de l'établissement)
+router.put('/:id', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), updateEstablishment);
+router.post('/:id/programs', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), createProgram);
+router.put('/:id/programs/:programId', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), updateProgram);
+router.delete('/:id/programs/:programId', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), deleteProgram);
+router.post('/:id/events', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), createEstablishmentEvent);
+router.put('/:id/events/:eventId', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), updateEstablishmentEvent);
+router.delete('/:id/events/:eventId', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), deleteEstablishmentEvent);
+router.get('/:id/applications', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), getEstablishmentApplications);
+router.patch('/:id/applications/:applicationId/status', protect, authorize('admin', 'establishment_staff'), authorizeEstablishment(), updateApplicationStatus);
 
 export default router;
\ No newline at end of file
@@ -9,8 +9,14 @@ import {
   searchHousing,
   updateAvailability,
   getHousingStats,
-  getHousingByType
+  getHousingByType,
+  getMyHousing,
+  exportHousing
 } from '../controllers/housing.controller';
+import { getVisitSlots, requestVisit } from '../controllers/visit.controller';
+import { startConversation } from '../controllers/conversation.controller';
+import { protect, authorize, requireVerified } from '../middleware/auth.middleware';
+import { uploadDocuments } from '../services/storage.service';
 
 const router = express.Router();
 
@@ -19,12 +25,22 @@ router.get('/', getAllHousing);
 router.get('/stats', getHousingStats);
 router.get('/type/:type', getHousingByType);
 router.get('/search/:keyword', searchHousing);
-router.get('/:id', getHousingById);
+router.get('/:id/visit-slots', getVisitSlots);
 
 // Routes protégées (pour propriétaires/admin)
-router.post('/', createHousing);
-router.put('/:id', updateHousing);
-router.delete('/:id', deleteHousing);
-router.patch('/:id/availability', updateAvailability);
+router.get('/mine', protect, authorize('landlord', 'admin'), getMyHousing);
+router.get('/export', protect, authorize('admin'), exportHousing);
+router.post('/', protect, authorize('landlord', 'admin'), requireVerified, createHousing);
+router.put('/:id', protect, authorize('landlord', 'admin'), updateHousing);
+router.delete('/:id', protect, authorize('landlord', 'admin'), deleteHousing);
+router.patch('/:id/availability', protect, authorize('landlord', 'admin'), updateAvailability);
+
+// Demandes de visite (étudiants connectés)
+router.post('/:id/visits', protect, authorize('student'), requestVisit);
+
+// Messagerie avec l'annonceur (étudiants connectés)
+router.post('/:id/conversations', protect, authorize('student'), uploadDocuments('attachments', 3), startConversation);
+
+router.get('/:id', getHousingById);
 
 export default router;
\ No newline at end of file
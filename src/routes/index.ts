@@ -4,13 +4,35 @@ import establishmentRoutes from './establishment.routes';
 import housingRoutes from './housing.routes';
 import userRoutes from './user.routes';
 import healthRoutes from './health.routes';
+import landlordApplicationRoutes from './landlordApplication.routes';
+import programRoutes from './program.routes';
+import reviewRoutes from './review.routes';
+import searchRoutes from './search.routes';
+import scholarshipRoutes from './scholarship.routes';
+import admissionEventRoutes from './admissionEvent.routes';
+import applicationRoutes from './application.routes';
+import visitRoutes from './visit.routes';
+import conversationRoutes from './conversation.routes';
+import savedSearchRoutes from './savedSearch.routes';
+import notificationRoutes from './notification.routes';
 
 const router = express.Router();
 
 // Routes d'API
 router.use('/establishments', establishmentRoutes);
+router.use('/programs', programRoutes);
+router.use('/reviews', reviewRoutes);
+router.use('/search', searchRoutes);
+router.use('/scholarships', scholarshipRoutes);
+router.use('/admission-events', admissionEventRoutes);
+router.use('/applications', applicationRoutes);
 router.use('/housing', housingRoutes);
+router.use('/visits', visitRoutes);
+router.use('/conversations', conversationRoutes);
+router.use('/saved-searches', savedSearchRoutes);
+router.use('/notifications', notificationRoutes);
 router.use('/users', userRoutes);
+router.use('/landlord-applications', landlordApplicationRoutes);
 router.use('/', healthRoutes); // Gardez ça ici aussi pour /api/health
 
 export default router;
\ No newline at end of file
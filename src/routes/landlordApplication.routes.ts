@@ -0,0 +1,30 @@
+// src/routes/landlordApplication.routes.ts
+import express from 'express';
+import {
+  submitLandlordApplication,
+  getMyLandlordApplications,
+  getLandlordApplications,
+  getLandlordApplicationById,
+  getLandlordApplicationDocument,
+  approveLandlordApplication,
+  rejectLandlordApplication
+} from '../controllers/landlordApplication.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+import { uploadDocuments } from '../services/storage.service';
+
+const router = express.Router();
+
+// Routes du demandeur
+router.post('/', protect, uploadDocuments('documents'), submitLandlordApplication);
+router.get('/me', protect, getMyLandlordApplications);
+
+// Routes admin seulement
+router.get('/', protect, authorize('admin'), getLandlordApplications);
+router.patch('/:id/approve', protect, authorize('admin'), approveLandlordApplication);
+router.patch('/:id/reject', protect, authorize('admin'), rejectLandlordApplication);
+
+// Demandeur ou admin
+router.get('/:id', protect, getLandlordApplicationById);
+router.get('/:id/documents/:fileId', protect, getLandlordApplicationDocument);
+
+export default router;
\ No newline at end of file
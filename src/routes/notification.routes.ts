@@ -0,0 +1,18 @@
+// src/routes/notification.routes.ts
+import express from 'express';
+import {
+  getMyNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  deleteNotification
+} from '../controllers/notification.controller';
+import { protect } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.get('/', protect, getMyNotifications);
+router.patch('/read-all', protect, markAllNotificationsRead); // Avant /:id
+router.patch('/:id/read', protect, markNotificationRead);
+router.delete('/:id', protect, deleteNotification);
+
+export default router;
\ No newline at end of file
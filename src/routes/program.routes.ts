@@ -0,0 +1,11 @@
+// src/routes/program.routes.ts
+import express from 'express';
+import { searchPrograms, getProgramById } from '../controllers/program.controller';
+
+const router = express.Router();
+
+// Routes publiques
+router.get('/', searchPrograms);
+router.get('/:id', getProgramById);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,23 @@
+// src/routes/review.routes.ts
+import express from 'express';
+import {
+  getMyReviews,
+  updateReview,
+  deleteReview,
+  getReviewsForModeration,
+  moderateReview
+} from '../controllers/review.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Routes protégées (auteur)
+router.get('/mine', protect, getMyReviews);
+router.put('/:id', protect, updateReview);
+router.delete('/:id', protect, deleteReview);
+
+// Routes admin seulement
+router.get('/', protect, authorize('admin'), getReviewsForModeration);
+router.patch('/:id/moderate', protect, authorize('admin'), moderateReview);
+
+export default router;
\ No newline at end of file
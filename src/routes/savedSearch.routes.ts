@@ -0,0 +1,20 @@
+// src/routes/savedSearch.routes.ts
+import express from 'express';
+import {
+  getMySavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchResults
+} from '../controllers/savedSearch.controller';
+import { protect } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.get('/', protect, getMySavedSearches);
+router.post('/', protect, createSavedSearch);
+router.put('/:id', protect, updateSavedSearch);
+router.delete('/:id', protect, deleteSavedSearch);
+router.get('/:id/results', protect, getSavedSearchResults);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,32 @@
+// src/routes/scholarship.routes.ts
+import express from 'express';
+import {
+  getScholarships,
+  getMyScholarships,
+  getUpcomingDeadlines,
+  getScholarshipsForAdmin,
+  getScholarshipById,
+  createScholarship,
+  updateScholarship,
+  deleteScholarship
+} from '../controllers/scholarship.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Routes publiques
+router.get('/', getScholarships);
+router.get('/upcoming', getUpcomingDeadlines);
+
+// Routes protégées
+router.get('/for-me', protect, getMyScholarships);
+
+// Routes admin seulement
+router.get('/manage', protect, authorize('admin'), getScholarshipsForAdmin);
+router.post('/', protect, authorize('admin'), createScholarship);
+router.put('/:id', protect, authorize('admin'), updateScholarship);
+router.delete('/:id', protect, authorize('admin'), deleteScholarship);
+
+router.get('/:id', getScholarshipById);
+
+export default router;
\ No newline at end of file
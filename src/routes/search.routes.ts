@@ -0,0 +1,11 @@
+// src/routes/search.routes.ts
+import express from 'express';
+import { suggest, unifiedSearch } from '../controllers/search.controller';
+
+const router = express.Router();
+
+// Routes publiques
+router.get('/', unifiedSearch);
+router.get('/suggest', suggest);
+
+export default router;
\ No newline at end of file
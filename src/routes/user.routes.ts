@@ -3,13 +3,42 @@ import express from 'express';
 import {
   registerUser,
   loginUser,
+  refreshAccessToken,
+  logoutUser,
+  logoutAllSessions,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+  changePassword,
   getUserProfile,
   updateUserProfile,
   addEstablishmentToFavorites,
+  removeEstablishmentFromFavorites,
   addHousingToFavorites,
+  removeHousingFromFavorites,
   getUserFavorites,
+  getUserFavoriteIds,
   getUsers
 } from '../controllers/user.controller';
+import {
+  updateUserRole,
+  suspendUser,
+  reactivateUser,
+  forceVerifyUser,
+  deleteUser,
+  getAuditLogs
+} from '../controllers/admin.controller';
+import {
+  getFavoriteLists,
+  createFavoriteList,
+  getFavoriteListById,
+  updateFavoriteList,
+  deleteFavoriteList,
+  addFavoriteListItem,
+  updateFavoriteListItem,
+  removeFavoriteListItem
+} from '../controllers/favoriteList.controller';
 import { protect, authorize } from '../middleware/auth.middleware';
 
 const router = express.Router();
@@ -17,15 +46,42 @@ const router = express.Router();
 // Routes publiques
 router.post('/register', registerUser);
 router.post('/login', loginUser);
+router.post('/refresh', refreshAccessToken);
+router.get('/verify-email/:token', verifyEmail);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password/:token', resetPassword);
 
 // Routes protégées
+router.post('/logout', protect, logoutUser);
+router.post('/logout-all', protect, logoutAllSessions);
+router.post('/verify-email/resend', protect, resendVerificationEmail);
 router.get('/profile', protect, getUserProfile);
 router.put('/profile', protect, updateUserProfile);
+router.put('/password', protect, changePassword);
 router.get('/favorites', protect, getUserFavorites);
+router.get('/favorites/ids', protect, getUserFavoriteIds);
 router.post('/favorites/establishments/:id', protect, addEstablishmentToFavorites);
+router.delete('/favorites/establishments/:id', protect, removeEstablishmentFromFavorites);
 router.post('/favorites/housing/:id', protect, addHousingToFavorites);
+router.delete('/favorites/housing/:id', protect, removeHousingFromFavorites);
+
+// Listes de favoris personnalisées
+router.get('/favorites/lists', protect, getFavoriteLists);
+router.post('/favorites/lists', protect, createFavoriteList);
+router.get('/favorites/lists/:listId', protect, getFavoriteListById);
+router.put('/favorites/lists/:listId', protect, updateFavoriteList);
+router.delete('/favorites/lists/:listId', protect, deleteFavoriteList);
+router.post('/favorites/lists/:listId/items', protect, addFavoriteListItem);
+router.put('/favorites/lists/:listId/items/:itemId', protect, updateFavoriteListItem);
+router.delete('/favorites/lists/:listId/items/:itemId', protect, removeFavoriteListItem);
 
 // Routes admin seulement
 router.get('/', protect, authorize('admin'), getUsers);
+router.get('/audit-logs', protect, authorize('admin'), getAuditLogs);
+router.patch('/:id/role', protect, authorize('admin'), updateUserRole);
+router.patch('/:id/suspend', protect, authorize('admin'), suspendUser);
+router.patch('/:id/reactivate', protect, authorize('admin'), reactivateUser);
+router.patch('/:id/verify', protect, authorize('admin'), forceVerifyUser);
+router.delete('/:id', protect, authorize('admin'), deleteUser);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,37 @@
+// src/routes/visit.routes.ts
+import express from 'express';
+import {
+  getUpcomingVisits,
+  getMyAvailability,
+  updateMyAvailability,
+  getVisitById,
+  acceptVisit,
+  rescheduleVisit,
+  confirmVisit,
+  declineVisit,
+  cancelVisit
+} from '../controllers/visit.controller';
+import { protect, authorize } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Étudiant et propriétaire (avant /:id)
+router.get('/upcoming', protect, getUpcomingVisits);
+
+// Planning du propriétaire
+router.get('/availability', protect, authorize('landlord', 'admin'), getMyAvailability);
+router.put('/availability', protect, authorize('landlord', 'admin'), updateMyAvailability);
+
+// Réponses du propriétaire
+router.patch('/:id/accept', protect, acceptVisit);
+router.patch('/:id/reschedule', protect, rescheduleVisit);
+router.patch('/:id/decline', protect, declineVisit);
+
+// Réponse de l'étudiant à un report
+router.patch('/:id/confirm', protect, confirmVisit);
+
+// Étudiant ou propriétaire
+router.patch('/:id/cancel', protect, cancelVisit);
+router.get('/:id', protect, getVisitById);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,77 @@
+// src/services/account.service.spec.ts
+import mongoose from 'mongoose';
+import { Housing, LandlordApplication, Review, User, VisitRequest } from '../models';
+import { deleteUserData } from './account.service';
+import { recomputeEstablishmentRating } from './rating.service';
+import { deleteApplications } from './application.service';
+import { deleteConversations } from './conversation.service';
+import { deleteFiles } from './storage.service';
+
+// Chaque modèle a ses propres fonctions simulées (les statiques Mongoose sont partagées par héritage)
+jest.mock('../models', () => {
+  const model = () => ({ find: jest.fn(), distinct: jest.fn(), deleteMany: jest.fn(), updateMany: jest.fn() });
+  return {
+    User: model(),
+    Session: model(),
+    Review: model(),
+    Housing: model(),
+    VisitRequest: model(),
+    VisitAvailability: model(),
+    FavoriteList: model(),
+    SavedSearch: model(),
+    Notification: model(),
+    LandlordApplication: model()
+  };
+});
+jest.mock('./rating.service');
+jest.mock('./application.service');
+jest.mock('./conversation.service');
+jest.mock('./storage.service');
+
+const mocked = <T extends (...args: any[]) => any>(fn: T) => fn as unknown as jest.MockedFunction<T>;
+
+// Requête Mongoose simulée : `.select()` puis résolution avec `docs`
+const selectQuery = (docs: object[]) => ({ select: jest.fn().mockResolvedValue(docs) });
+
+describe('deleteUserData', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const establishmentId = new mongoose.Types.ObjectId();
+  const housingId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mocked(Review.distinct).mockResolvedValue([establishmentId] as never);
+    mocked(Housing.find).mockReturnValue(selectQuery([{ _id: housingId }]) as never);
+    mocked(LandlordApplication.find).mockReturnValue(selectQuery([{ documents: [{ fileId: 'cni' }] }]) as never);
+  });
+
+  it('supprime les avis avant de recalculer la note des établissements concernés', async () => {
+    await deleteUserData(userId);
+
+    expect(Review.deleteMany).toHaveBeenCalledWith({ user: userId });
+    expect(recomputeEstablishmentRating).toHaveBeenCalledWith(establishmentId);
+    expect(mocked(Review.deleteMany).mock.invocationCallOrder[0])
+      .toBeLessThan(mocked(recomputeEstablishmentRating).mock.invocationCallOrder[0]);
+  });
+
+  it('supprime les annonces du propriétaire et les retire des favoris', async () => {
+    await deleteUserData(userId);
+
+    expect(Housing.deleteMany).toHaveBeenCalledWith({ _id: { $in: [housingId] } });
+    expect(User.updateMany).toHaveBeenCalledWith(
+      { 'favorites.housing': { $in: [housingId] } },
+      { $pull: { 'favorites.housing': { $in: [housingId] } } }
+    );
+    expect(VisitRequest.deleteMany).toHaveBeenCalledWith(expect.objectContaining({
+      $or: expect.arrayContaining([{ housing: { $in: [housingId] } }])
+    }));
+  });
+
+  it('supprime candidatures, conversations et pièces justificatives du compte', async () => {
+    await deleteUserData(userId);
+
+    expect(deleteApplications).toHaveBeenCalledWith({ user: userId });
+    expect(deleteConversations).toHaveBeenCalledWith({ $or: [{ student: userId }, { landlord: userId }] });
+    expect(deleteFiles).toHaveBeenCalledWith('landlord_documents', ['cni']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,58 @@
+// src/services/account.service.ts
+import mongoose from 'mongoose';
+import {
+  User,
+  Session,
+  Review,
+  Housing,
+  VisitRequest,
+  VisitAvailability,
+  FavoriteList,
+  SavedSearch,
+  Notification,
+  LandlordApplication
+} from '../models';
+import { LANDLORD_DOCUMENTS_BUCKET } from '../models/LandlordApplication';
+import { recomputeEstablishmentRating } from './rating.service';
+import { deleteApplications } from './application.service';
+import { deleteConversations } from './conversation.service';
+import { deleteFiles } from './storage.service';
+import { clearSuggestionCache } from './suggestion.service';
+
+// Supprimer tout ce qui appartient à un compte supprimé (le journal d'audit est conservé)
+export const deleteUserData = async (userId: string | mongoose.Types.ObjectId) => {
+  // Avis d'abord, puis recalcul des notes des établissements concernés
+  const reviewedEstablishments = await Review.distinct('establishment', { user: userId });
+  await Review.deleteMany({ user: userId });
+  await Promise.all(reviewedEstablishments.map(establishment => recomputeEstablishmentRating(establishment)));
+
+  // Annonces du propriétaire, retirées aussi des favoris des autres utilisateurs
+  const housingIds = (await Housing.find({ owner: userId }).select('_id')).map(housing => housing._id);
+  if (housingIds.length > 0) {
+    await Housing.deleteMany({ _id: { $in: housingIds } });
+    clearSuggestionCache();
+    await User.updateMany(
+      { 'favorites.housing': { $in: housingIds } },
+      { $pull: { 'favorites.housing': { $in: housingIds } } }
+    );
+  }
+
+  const landlordApplications = await LandlordApplication.find({ user: userId }).select('documents');
+
+  await Promise.all([
+    Session.deleteMany({ user: userId }),
+    deleteApplications({ user: userId }),
+    deleteConversations({ $or: [{ student: userId }, { landlord: userId }] }),
+    VisitRequest.deleteMany({ $or: [{ student: userId }, { landlord: userId }, { housing: { $in: housingIds } }] }),
+    VisitAvailability.deleteMany({ landlord: userId }),
+    FavoriteList.deleteMany({ user: userId }),
+    SavedSearch.deleteMany({ user: userId }),
+    Notification.deleteMany({ user: userId }),
+    LandlordApplication.deleteMany({ user: userId })
+  ]);
+
+  await deleteFiles(
+    LANDLORD_DOCUMENTS_BUCKET,
+    landlordApplications.flatMap(application => application.documents.map(doc => doc.fileId))
+  );
+};
\ No newline at end of file
@@ -0,0 +1,66 @@
+// src/services/application.service.ts
+import { Application } from '../models';
+import { sendApplicationDeadlineReminderEmail } from './mail.service';
+import { deleteFiles } from './storage.service';
+import { runPeriodically } from '../utils/scheduler';
+
+export const APPLICATION_DOCUMENTS_BUCKET = 'application_documents';
+
+// Rappels envoyés pour les brouillons, N jours avant la date limite
+export const REMINDER_DAYS = [7, 3, 1];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Libellé "Formation - Établissement" d'une candidature peuplée
+export const applicationTarget = (application: any) => {
+  const establishmentName = application.establishment?.name || 'l\'établissement';
+  return application.program?.name ? `${application.program.name} - ${establishmentName}` : establishmentName;
+};
+
+// Supprimer des candidatures avec leurs pièces jointes (ex: établissement supprimé)
+export const deleteApplications = async (filter: Record<string, any>) => {
+  const applications = await Application.find(filter).select('documents');
+  await Application.deleteMany({ _id: { $in: applications.map(application => application._id) } });
+  await deleteFiles(
+    APPLICATION_DOCUMENTS_BUCKET,
+    applications.flatMap(application => application.documents.map(doc => doc.fileId))
+  );
+};
+
+// Envoyer les rappels dus ; chaque palier n'est envoyé qu'une fois par candidature
+// (si plusieurs paliers sont dus en même temps, un seul email est envoyé)
+export const sendApplicationDeadlineReminders = async (now = new Date()) => {
+  const horizon = new Date(now.getTime() + Math.max(...REMINDER_DAYS) * DAY_MS);
+  const applications = await Application.find({
+    status: 'draft',
+    deadline: { $gt: now, $lte: horizon }
+  })
+    .populate('user', 'email firstName')
+    .populate('establishment', 'name')
+    .populate('program', 'name');
+
+  let sent = 0;
+  for (const application of applications) {
+    const daysLeft = Math.ceil(((application.deadline as Date).getTime() - now.getTime()) / DAY_MS);
+    const due = REMINDER_DAYS.filter(days => daysLeft <= days && !application.remindersSent.includes(days));
+    const user = application.user as any;
+    if (due.length === 0 || !user?.email) continue;
+
+    try {
+      await sendApplicationDeadlineReminderEmail(user, applicationTarget(application), application.deadline as Date, daysLeft);
+      await Application.updateOne({ _id: application._id }, { $addToSet: { remindersSent: { $each: due } } });
+      sent++;
+    } catch (error) {
+      console.error(`Erreur rappel candidature ${application._id}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+// Vérification périodique lancée au démarrage du serveur
+export const startApplicationReminders = () =>
+  runPeriodically('rappels de candidature', async () => {
+    const sent = await sendApplicationDeadlineReminders();
+    if (sent > 0) console.log(`📬 ${sent} rappel(s) de candidature envoyé(s)`);
+  }, REMINDER_INTERVAL_MS);
\ No newline at end of file
@@ -0,0 +1,25 @@
+// src/services/audit.service.ts
+import { Request } from 'express';
+import { AuditLog } from '../models';
+
+// Journaliser une action d'administration (ne fait jamais échouer la requête)
+export const recordAudit = async (
+  req: Request,
+  action: string,
+  targetType: string,
+  targetId?: string,
+  details?: Record<string, any>
+) => {
+  try {
+    await AuditLog.create({
+      actor: (req as any).user.id,
+      action,
+      targetType,
+      targetId,
+      details,
+      ip: req.ip
+    });
+  } catch (error) {
+    console.error('Erreur recordAudit:', error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,96 @@
+// src/services/calendar.service.ts
+import { Response } from 'express';
+
+// Événement au format attendu par le générateur iCalendar (RFC 5545)
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  cancelled?: boolean;
+  updatedAt?: Date;
+}
+
+const CALENDAR_DOMAIN = 'etudesenegal.sn';
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lignes de 75 octets maximum, continuées par un espace
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date: Date) => new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+const buildEvent = (event: CalendarEvent) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}@${CALENDAR_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(event.updatedAt || new Date())}`
+  ];
+
+  if (event.allDay) {
+    // La date de fin d'un événement "journée entière" est exclusive
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(nextDay(event.end))}`);
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start)}`);
+    lines.push(`DTEND:${formatDateTime(event.end > event.start ? event.end : new Date(event.start.getTime() + 60 * 60 * 1000))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+};
+
+export const buildICalendar = (name: string, events: CalendarEvent[]) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EtudeSenegal//Calendrier des admissions//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Africa/Dakar',
+    ...events.flatMap(buildEvent),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const sendICalendar = (res: Response, filename: string, name: string, events: CalendarEvent[]) => {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}.ics"`);
+  res.send(buildICalendar(name, events));
+};
\ No newline at end of file
@@ -0,0 +1,40 @@
+// src/services/comparison.service.spec.ts
+import mongoose, { PipelineStage } from 'mongoose';
+import { Establishment, Housing, Program } from '../models';
+import { buildEstablishmentComparison } from './comparison.service';
+
+// Établissement tel que chargé depuis la base (geoLocation absent si non géolocalisé)
+const loadEstablishment = (name: string, fields: Record<string, any> = {}) =>
+  Establishment.hydrate({ _id: new mongoose.Types.ObjectId(), name, type: 'university', location: 'Dakar', ...fields });
+
+describe('buildEstablishmentComparison', () => {
+  beforeEach(() => {
+    jest.spyOn(Program, 'find').mockReturnValue({
+      select: jest.fn().mockReturnThis(),
+      sort: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockResolvedValue([])
+    } as unknown as ReturnType<typeof Program.find>);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('laisse le résumé logement à null pour un établissement non géolocalisé', async () => {
+    const aggregate = jest.spyOn(Housing, 'aggregate').mockResolvedValue([
+      { availableCount: 3, averagePrice: 80000.4, minPrice: 60000, maxPrice: 100000 }
+    ]);
+
+    const located = loadEstablishment('UCAD', {
+      coordinates: { lat: 14.69, lng: -17.46 },
+      geoLocation: { type: 'Point', coordinates: [-17.46, 14.69] }
+    });
+    const unlocated = loadEstablishment('ISM');
+
+    const { items } = await buildEstablishmentComparison([located, unlocated]);
+
+    expect(aggregate).toHaveBeenCalledTimes(1);
+    const [geoNear] = aggregate.mock.calls[0][0] as PipelineStage.GeoNear[];
+    expect(geoNear.$geoNear.near).toEqual({ type: 'Point', coordinates: [-17.46, 14.69] });
+    expect(items[0].housing).toEqual(expect.objectContaining({ availableCount: 3, averagePrice: 80000 }));
+    expect(items[1].housing).toBeNull();
+  });
+});
\ No newline at end of file
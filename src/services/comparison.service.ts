@@ -0,0 +1,141 @@
+// src/services/comparison.service.ts
+import mongoose from 'mongoose';
+import { Program, Housing } from '../models';
+import { IEstablishment } from '../models/Establishment';
+import { PROGRAM_DEGREES } from '../models/Program';
+import { geoNearStage } from './geo.service';
+import { fromGeoPoint } from '../utils/geo';
+
+// Rayon retenu pour les statistiques de logement autour de chaque établissement
+export const COMPARISON_HOUSING_RADIUS_KM = 5;
+
+interface DegreeSummary {
+  count: number;
+  minTuition: number;
+  maxTuition: number;
+  programs: Array<{ _id: any; name: string; field: string; durationYears: number; annualTuition: number }>;
+}
+
+// Champs comparés pour détecter les différences (chemins dans l'objet normalisé)
+const COMPARED_FIELDS = [
+  'type',
+  'location',
+  'isCAMESRecognized',
+  'studentsCount',
+  'rating',
+  'degrees',
+  'tuition.min',
+  'tuition.max',
+  'housing.availableCount',
+  'housing.averagePrice'
+];
+
+const getPath = (obj: any, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), obj);
+
+// Formations actives regroupées par établissement puis par diplôme
+const loadProgramsByEstablishment = async (establishmentIds: mongoose.Types.ObjectId[]) => {
+  const programs = await Program.find({ establishment: { $in: establishmentIds }, isActive: true })
+    .select('establishment name degree field durationYears annualTuition')
+    .sort({ annualTuition: 1 })
+    .lean();
+
+  const grouped = new Map<string, Record<string, DegreeSummary>>();
+
+  programs.forEach(program => {
+    const key = String(program.establishment);
+    const byDegree = grouped.get(key) || {};
+    const summary = byDegree[program.degree] || {
+      count: 0,
+      minTuition: program.annualTuition,
+      maxTuition: program.annualTuition,
+      programs: []
+    };
+
+    summary.count += 1;
+    summary.minTuition = Math.min(summary.minTuition, program.annualTuition);
+    summary.maxTuition = Math.max(summary.maxTuition, program.annualTuition);
+    summary.programs.push({
+      _id: program._id,
+      name: program.name,
+      field: program.field,
+      durationYears: program.durationYears,
+      annualTuition: program.annualTuition
+    });
+
+    byDegree[program.degree] = summary;
+    grouped.set(key, byDegree);
+  });
+
+  return grouped;
+};
+
+// Logements disponibles dans le rayon : nombre et prix (null si l'établissement n'est pas géolocalisé)
+const summarizeNearbyHousing = async (establishment: IEstablishment) => {
+  const position = fromGeoPoint(establishment.geoLocation);
+  if (!position) return null;
+
+  const near = {
+    ...position,
+    radiusKm: COMPARISON_HOUSING_RADIUS_KM
+  };
+
+  const [stats] = await Housing.aggregate([
+    geoNearStage(Housing, near, { isAvailable: true }),
+    {
+      $group: {
+        _id: null,
+        availableCount: { $sum: 1 },
+        averagePrice: { $avg: '$price' },
+        minPrice: { $min: '$price' },
+        maxPrice: { $max: '$price' }
+      }
+    }
+  ]);
+
+  return {
+    radiusKm: COMPARISON_HOUSING_RADIUS_KM,
+    availableCount: stats?.availableCount || 0,
+    averagePrice: stats ? Math.round(stats.averagePrice) : null,
+    minPrice: stats?.minPrice ?? null,
+    maxPrice: stats?.maxPrice ?? null
+  };
+};
+
+// Construire la comparaison normalisée de plusieurs établissements (dans l'ordre reçu)
+export const buildEstablishmentComparison = async (establishments: IEstablishment[]) => {
+  const programsByEstablishment = await loadProgramsByEstablishment(
+    establishments.map(establishment => establishment._id as mongoose.Types.ObjectId)
+  );
+
+  const items = await Promise.all(establishments.map(async establishment => {
+    const byDegree = programsByEstablishment.get(String(establishment._id)) || {};
+    const degrees = PROGRAM_DEGREES.filter(degree => byDegree[degree]);
+    const summaries = Object.values(byDegree);
+
+    return {
+      _id: establishment._id,
+      name: establishment.name,
+      type: establishment.type,
+      location: establishment.location,
+      isCAMESRecognized: establishment.isCAMESRecognized,
+      studentsCount: establishment.studentsCount,
+      rating: establishment.rating,
+      reviewsCount: establishment.reviewsCount,
+      degrees,
+      programsByDegree: byDegree,
+      tuition: {
+        min: summaries.length ? Math.min(...summaries.map(summary => summary.minTuition)) : null,
+        max: summaries.length ? Math.max(...summaries.map(summary => summary.maxTuition)) : null
+      },
+      housing: await summarizeNearbyHousing(establishment)
+    };
+  }));
+
+  const differences = COMPARED_FIELDS.filter(field => {
+    const values = items.map(item => JSON.stringify(getPath(item, field) ?? null));
+    return new Set(values).size > 1;
+  });
+
+  return { items, differences };
+};
\ No newline at end of file
@@ -0,0 +1,22 @@
+// src/services/conversation.service.ts
+import { Conversation, Message, MessageReport } from '../models';
+import { deleteFiles } from './storage.service';
+
+export const MESSAGE_ATTACHMENTS_BUCKET = 'message_attachments';
+
+// Supprimer des conversations avec leurs messages, pièces jointes et signalements (ex: compte supprimé)
+export const deleteConversations = async (filter: Record<string, any>) => {
+  const conversationIds = (await Conversation.find(filter).select('_id')).map(conversation => conversation._id);
+  if (conversationIds.length === 0) return;
+
+  const messages = await Message.find({ conversation: { $in: conversationIds } }).select('attachments');
+  await Promise.all([
+    MessageReport.deleteMany({ conversation: { $in: conversationIds } }),
+    Message.deleteMany({ conversation: { $in: conversationIds } }),
+    Conversation.deleteMany({ _id: { $in: conversationIds } })
+  ]);
+  await deleteFiles(
+    MESSAGE_ATTACHMENTS_BUCKET,
+    messages.flatMap(message => message.attachments.map(file => file.fileId))
+  );
+};
\ No newline at end of file
@@ -0,0 +1,409 @@
+// src/services/establishmentImport.service.ts
+import { Establishment } from '../models';
+import {
+  SpreadsheetRow,
+  normalizeLabel,
+  parseBooleanCell,
+  parseNumberCell,
+  parseListCell
+} from './spreadsheet.service';
+
+export interface ImportResults {
+  imported: any[];
+  updated: any[];
+  unchanged: string[];
+  errors: string[];
+  skipped: string[];
+}
+
+export interface ImportSummary {
+  mode: string;
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  updated: number;
+  unchanged: number;
+  errors: number;
+  skipped: number;
+  errorDetails?: string[];
+  skippedDetails?: string[];
+  importedDetails?: any[];
+  updatedDetails?: any[];
+}
+
+// En-têtes de colonnes reconnus (normalisés) -> champ de l'établissement
+export const DEFAULT_COLUMN_MAPPING: Record<string, string> = {
+  'nom': 'name',
+  'name': 'name',
+  'etablissement': 'name',
+  'type': 'type',
+  'ville': 'location',
+  'localisation': 'location',
+  'location': 'location',
+  'description': 'description',
+  'nombre d etudiants': 'studentsCount',
+  'effectif': 'studentsCount',
+  'etudiants': 'studentsCount',
+  'reconnu cames': 'isCAMESRecognized',
+  'cames': 'isCAMESRecognized',
+  'programmes': 'programs',
+  'filieres': 'programs',
+  'formations': 'programs',
+  'email': 'contact.email',
+  'e mail': 'contact.email',
+  'courriel': 'contact.email',
+  'telephone': 'contact.phone',
+  'tel': 'contact.phone',
+  'site web': 'contact.website',
+  'site internet': 'contact.website',
+  'website': 'contact.website',
+  'latitude': 'coordinates.lat',
+  'longitude': 'coordinates.lng'
+};
+
+// Libellés français des types d'établissement
+const TYPE_ALIASES: Record<string, string> = {
+  'universite': 'university',
+  'university': 'university',
+  'ecole': 'school',
+  'school': 'school',
+  'grande ecole': 'school',
+  'institut': 'institute',
+  'institute': 'institute'
+};
+
+// Convertir une ligne de tableur en objet au format de l'import JSON
+// `customMapping` (en-tête -> champ) complète ou remplace le mapping par défaut
+export const mapSpreadsheetRow = (row: SpreadsheetRow, customMapping: Record<string, string> = {}) => {
+  const mapping: Record<string, string> = { ...DEFAULT_COLUMN_MAPPING };
+  Object.entries(customMapping).forEach(([header, field]) => {
+    mapping[normalizeLabel(header)] = field;
+  });
+
+  const item: any = { contact: {} };
+  const coordinates: any = {};
+
+  Object.entries(row).forEach(([header, value]) => {
+    const field = mapping[normalizeLabel(header)];
+    if (!field || value === '') return;
+
+    switch (field) {
+      case 'type':
+        item.type = TYPE_ALIASES[normalizeLabel(String(value))] || String(value);
+        break;
+      case 'studentsCount':
+        item[field] = parseNumberCell(value);
+        break;
+      case 'isCAMESRecognized':
+        item.isCAMESRecognized = parseBooleanCell(value);
+        break;
+      case 'programs':
+        item.programs = parseListCell(value);
+        break;
+      case 'coordinates.lat':
+        coordinates.lat = parseNumberCell(value);
+        break;
+      case 'coordinates.lng':
+        coordinates.lng = parseNumberCell(value);
+        break;
+      default:
+        if (field.startsWith('contact.')) {
+          item.contact[field.split('.')[1]] = String(value).trim();
+        } else {
+          item[field] = String(value).trim();
+        }
+    }
+  });
+
+  if (coordinates.lat !== undefined && coordinates.lng !== undefined) {
+    item.coordinates = coordinates;
+  }
+
+  return item;
+};
+
+export type ImportMode = 'insert' | 'upsert';
+
+export interface ImportOptions {
+  lineOffset?: number;
+  mode?: ImportMode;
+  dryRun?: boolean;
+}
+
+const VALID_TYPES = ['university', 'school', 'institute'];
+
+// Champs comparés pour le diff d'une mise à jour (chemins "à plat")
+const DIFF_FIELDS = [
+  'name', 'type', 'location', 'description', 'studentsCount',
+  'isCAMESRecognized', 'programs', 'images',
+  'contact.email', 'contact.phone', 'contact.website', 'coordinates'
+];
+
+const getPath = (source: any, path: string) =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+
+const normalizeForDiff = (value: any) => {
+  if (value && typeof value.toObject === 'function') value = value.toObject();
+  if (Array.isArray(value)) return JSON.stringify(value.map(String));
+  if (value && typeof value === 'object') return JSON.stringify(value);
+  return value ?? null;
+};
+
+// Préparer les données d'un établissement à partir d'une ligne validée
+// La note n'est pas importée : elle est calculée à partir des avis des étudiants
+const buildEstablishmentData = (item: any) => ({
+  name: item.name.trim(),
+  type: item.type.toLowerCase(),
+  location: item.location,
+  description: item.description || '',
+  studentsCount: item.studentsCount || 0,
+  isCAMESRecognized: Boolean(item.isCAMESRecognized),
+  programs: Array.isArray(item.programs)
+    ? item.programs.map((p: string) => p.toString().trim()).filter(Boolean)
+    : [],
+  images: Array.isArray(item.images) ? item.images : [],
+  contact: {
+    email: item.contact.email.toLowerCase().trim(),
+    phone: item.contact.phone?.toString().trim() || '',
+    website: item.contact.website?.toString().trim() || ''
+  },
+  coordinates: item.coordinates || null
+});
+
+// En mode upsert, seules les colonnes réellement fournies écrasent les valeurs existantes
+const buildUpdateData = (item: any, data: ReturnType<typeof buildEstablishmentData>) => {
+  const update: Record<string, any> = {
+    name: data.name,
+    type: data.type,
+    location: data.location,
+    'contact.email': data.contact.email
+  };
+
+  if (item.description !== undefined) update.description = data.description;
+  if (item.studentsCount !== undefined) update.studentsCount = data.studentsCount;
+  if (item.isCAMESRecognized !== undefined) update.isCAMESRecognized = data.isCAMESRecognized;
+  if (item.programs !== undefined) update.programs = data.programs;
+  if (item.images !== undefined) update.images = data.images;
+  if (item.contact.phone !== undefined) update['contact.phone'] = data.contact.phone;
+  if (item.contact.website !== undefined) update['contact.website'] = data.contact.website;
+  if (item.coordinates !== undefined) update.coordinates = data.coordinates;
+
+  return update;
+};
+
+// Champs modifiés entre un établissement existant et les nouvelles valeurs
+const computeDiff = (existing: any, update: Record<string, any>) => {
+  const diff: Record<string, { from: any; to: any }> = {};
+
+  DIFF_FIELDS.forEach(field => {
+    if (!(field in update)) return;
+    const from = getPath(existing, field);
+    const to = update[field];
+    if (normalizeForDiff(from) !== normalizeForDiff(to)) {
+      diff[field] = {
+        from: from && typeof from.toObject === 'function' ? from.toObject() : from ?? null,
+        to
+      };
+    }
+  });
+
+  return diff;
+};
+
+// Importer une liste d'établissements ligne par ligne
+// - mode "insert" (défaut) : les établissements existants (même nom ou email) sont ignorés
+// - mode "upsert" : les établissements existants sont mis à jour, avec le diff par ligne
+// - dryRun : tout est validé et rapporté, mais rien n'est écrit en base
+// `lineOffset` : numéro de la première ligne dans le rapport (2 pour un tableur avec en-tête)
+export const importEstablishmentItems = async (
+  items: any[],
+  options: ImportOptions = {}
+): Promise<ImportResults> => {
+  const lineOffset = options.lineOffset ?? 1;
+  const mode = options.mode || 'insert';
+  const dryRun = Boolean(options.dryRun);
+
+  const results: ImportResults = {
+    imported: [],
+    updated: [],
+    unchanged: [],
+    errors: [],
+    skipped: []
+  };
+
+  // Noms et emails déjà rencontrés dans ce fichier (doublons internes)
+  const seenNames = new Set<string>();
+  const seenEmails = new Set<string>();
+
+  // Traitement séquentiel pour mieux gérer les erreurs
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const lineNumber = i + lineOffset;
+
+    try {
+      // Validation des données requises
+      if (!item.name || !item.type || !item.location) {
+        results.errors.push(`Ligne ${lineNumber}: Champs requis manquants (nom, type, localisation)`);
+        continue;
+      }
+
+      // Validation de l'email
+      if (!item.contact?.email) {
+        results.errors.push(`Ligne ${lineNumber}: Email de contact requis`);
+        continue;
+      }
+
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(item.contact.email)) {
+        results.errors.push(`Ligne ${lineNumber}: Format d'email invalide`);
+        continue;
+      }
+
+      // Préparer les données
+      const establishmentData = buildEstablishmentData(item);
+
+      // Vérifier le type
+      if (!VALID_TYPES.includes(establishmentData.type)) {
+        results.errors.push(`Ligne ${lineNumber}: Type invalide (${VALID_TYPES.join(', ')})`);
+        continue;
+      }
+
+      const nameKey = establishmentData.name.toLowerCase();
+      if (seenNames.has(nameKey) || seenEmails.has(establishmentData.contact.email)) {
+        results.skipped.push(`Ligne ${lineNumber}: "${item.name}" apparaît plusieurs fois dans l'import`);
+        continue;
+      }
+      seenNames.add(nameKey);
+      seenEmails.add(establishmentData.contact.email);
+
+      // Vérifier si l'établissement existe déjà
+      const matches = await Establishment.find({
+        $or: [
+          { name: establishmentData.name },
+          { 'contact.email': establishmentData.contact.email }
+        ]
+      }).limit(2);
+
+      if (matches.length > 1) {
+        results.errors.push(`Ligne ${lineNumber}: le nom et l'email correspondent à deux établissements différents`);
+        continue;
+      }
+
+      const existing = matches[0];
+
+      if (existing && mode === 'insert') {
+        results.skipped.push(`Ligne ${lineNumber}: "${item.name}" existe déjà`);
+        continue;
+      }
+
+      if (existing) {
+        const update = buildUpdateData(item, establishmentData);
+        const changes = computeDiff(existing, update);
+
+        if (Object.keys(changes).length === 0) {
+          results.unchanged.push(`Ligne ${lineNumber}: "${item.name}" est déjà à jour`);
+          continue;
+        }
+
+        if (dryRun) {
+          existing.set(update);
+          await existing.validate();
+        } else {
+          await Establishment.updateOne(
+            { _id: existing._id },
+            { ...update, updatedAt: new Date() },
+            { runValidators: true }
+          );
+        }
+
+        results.updated.push({
+          line: lineNumber,
+          id: existing._id,
+          name: establishmentData.name,
+          changes
+        });
+        continue;
+      }
+
+      const document = new Establishment({
+        ...establishmentData,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      // En simulation, on valide le document sans l'enregistrer
+      if (dryRun) {
+        await document.validate();
+      } else {
+        await document.save();
+      }
+
+      results.imported.push({
+        line: lineNumber,
+        id: dryRun ? undefined : document._id,
+        name: document.name,
+        email: document.contact.email
+      });
+
+    } catch (error: any) {
+      console.error(`Erreur ligne ${lineNumber}:`, error);
+      results.errors.push(`Ligne ${lineNumber}: ${error.message || 'Erreur inconnue'}`);
+    }
+  }
+
+  return results;
+};
+
+// Construire le résumé renvoyé par les endpoints d'import
+export const buildImportSummary = (
+  total: number,
+  results: ImportResults,
+  showDetails: boolean,
+  options: ImportOptions = {}
+): ImportSummary => {
+  const summary: ImportSummary = {
+    mode: options.mode || 'insert',
+    dryRun: Boolean(options.dryRun),
+    total,
+    imported: results.imported.length,
+    updated: results.updated.length,
+    unchanged: results.unchanged.length,
+    errors: results.errors.length,
+    skipped: results.skipped.length
+  };
+
+  // Le diff des mises à jour est toujours renvoyé : c'est l'intérêt du mode upsert
+  if (results.updated.length > 0) {
+    summary.updatedDetails = results.updated.slice(0, 100);
+  }
+
+  // Ajouter les détails d'erreur si en mode développement, si demandé, ou en simulation
+  if (showDetails || options.dryRun) {
+    if (results.errors.length > 0) {
+      summary.errorDetails = results.errors.slice(0, 20); // Limiter à 20 erreurs
+    }
+    if (results.skipped.length > 0) {
+      summary.skippedDetails = results.skipped.slice(0, 20);
+    }
+    if (results.imported.length > 0 && (options.dryRun || results.imported.length <= 10)) {
+      summary.importedDetails = results.imported.slice(0, 100);
+    }
+  }
+
+  return summary;
+};
+
+// Lire le mode d'import depuis la requête : ?mode=insert|upsert|dryRun (&dryRun=true pour simuler un upsert)
+export const parseImportOptions = (mode: any, dryRun: any): ImportOptions | null => {
+  const modeValue = String(mode || 'insert');
+
+  if (modeValue === 'dryRun') {
+    return { mode: 'insert', dryRun: true };
+  }
+
+  if (modeValue !== 'insert' && modeValue !== 'upsert') {
+    return null;
+  }
+
+  return { mode: modeValue, dryRun: dryRun === true || dryRun === 'true' };
+};
\ No newline at end of file
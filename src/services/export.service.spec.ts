@@ -0,0 +1,67 @@
+// src/services/export.service.spec.ts
+import { Response } from 'express';
+import { sendExport, ExportColumn } from './export.service';
+
+const COLUMNS: ExportColumn[] = [
+  { header: 'Nom', value: doc => doc.name },
+  { header: 'Téléphone', value: doc => doc.contact?.phone },
+  { header: 'Programmes', value: doc => doc.programs || [] }
+];
+
+// Réponse qui accumule ce qui est écrit
+const mockResponse = () => {
+  const chunks: string[] = [];
+  const res: Partial<Response> = {
+    destroyed: false,
+    setHeader: jest.fn(),
+    write: jest.fn((chunk: any) => {
+      chunks.push(chunk);
+      return true;
+    }),
+    end: jest.fn((chunk?: any) => {
+      if (chunk) chunks.push(chunk);
+      return res as Response;
+    })
+  };
+  return { res: res as Response, output: () => chunks.join('') };
+};
+
+async function* documents() {
+  yield { name: '=HYPERLINK("http://x")', contact: { phone: '+221 77 123 45 67' }, programs: ['Droit'] };
+  yield { name: 'ISM', contact: {}, programs: [] };
+}
+
+describe('sendExport', () => {
+  it('neutralise les formules CSV sans modifier les numéros de téléphone', async () => {
+    const { res, output } = mockResponse();
+
+    await sendExport(res, 'csv', documents(), COLUMNS, { filename: 'test', sheetName: 'Test' });
+
+    const [, first, second] = output().replace('\uFEFF', '').trim().split('\n');
+    expect(first).toBe('"\'=HYPERLINK(""http://x"")",+221 77 123 45 67,Droit');
+    expect(second).toBe('ISM,,');
+  });
+
+  it('exporte en JSON les mêmes colonnes que le CSV', async () => {
+    const { res, output } = mockResponse();
+
+    await sendExport(res, 'json', documents(), COLUMNS, { filename: 'test', sheetName: 'Test' });
+
+    expect(JSON.parse(output())).toEqual([
+      { Nom: '=HYPERLINK("http://x")', Téléphone: '+221 77 123 45 67', Programmes: ['Droit'] },
+      { Nom: 'ISM', Téléphone: null, Programmes: [] }
+    ]);
+  });
+
+  it('arrête l\'export quand le client se déconnecte', async () => {
+    const { res } = mockResponse();
+    (res.write as jest.Mock).mockImplementation(() => {
+      Object.assign(res, { destroyed: true });
+      return false;
+    });
+
+    await sendExport(res, 'csv', documents(), COLUMNS, { filename: 'test', sheetName: 'Test' });
+
+    expect(res.end).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
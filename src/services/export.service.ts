@@ -0,0 +1,131 @@
+// src/services/export.service.ts
+import { Response } from 'express';
+import * as XLSX from 'xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+// Colonne d'export : en-tête lisible + extraction de la valeur (champs imbriqués aplatis)
+export interface ExportColumn {
+  header: string;
+  value: (doc: any) => any;
+}
+
+// Curseur Mongo (ou tout itérable asynchrone de documents)
+type DocumentSource = AsyncIterable<any>;
+
+const formatCell = (value: any) => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non';
+  if (Array.isArray(value)) return value.join('; ');
+  return value;
+};
+
+// Texte commençant par = + - @ : interprété comme une formule par les tableurs (injection CSV)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Nombres et numéros de téléphone ("+221 77 123 45 67") : exportés tels quels pour rester ré-importables
+const PLAIN_NUMBER = /^[+-]?[\d\s().]+$/;
+
+const isFormulaLike = (cell: any) =>
+  typeof cell === 'string' && FORMULA_PREFIX.test(cell) && !PLAIN_NUMBER.test(cell);
+
+const escapeCsv = (value: any) => {
+  const cell = formatCell(value);
+  const text = isFormulaLike(cell) ? `'${cell}` : String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const setDownloadHeaders = (res: Response, contentType: string, filename: string) => {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+};
+
+// Écrire en respectant la contre-pression du client
+// Retourne false si le client s'est déconnecté : l'export doit alors s'arrêter (et fermer le curseur)
+const writeChunk = async (res: Response, chunk: string) => {
+  if (res.destroyed) return false;
+  if (!res.write(chunk)) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.once('drain', done);
+      res.once('close', done);
+    });
+  }
+  return !res.destroyed;
+};
+
+// CSV écrit ligne par ligne au fil du curseur (BOM UTF-8 pour l'ouverture dans Excel)
+const streamCsv = async (res: Response, source: DocumentSource, columns: ExportColumn[], filename: string) => {
+  setDownloadHeaders(res, 'text/csv; charset=utf-8', `${filename}.csv`);
+  res.write('\uFEFF' + columns.map(column => escapeCsv(column.header)).join(',') + '\n');
+
+  for await (const doc of source) {
+    const line = columns.map(column => escapeCsv(column.value(doc))).join(',') + '\n';
+    if (!(await writeChunk(res, line))) return;
+  }
+
+  res.end();
+};
+
+// JSON : tableau écrit document par document, avec les mêmes colonnes que le CSV et le XLSX
+const streamJson = async (res: Response, source: DocumentSource, columns: ExportColumn[], filename: string) => {
+  setDownloadHeaders(res, 'application/json; charset=utf-8', `${filename}.json`);
+  res.write('[');
+
+  let first = true;
+  for await (const doc of source) {
+    const row = Object.fromEntries(columns.map(column => [column.header, column.value(doc) ?? null]));
+    const chunk = (first ? '' : ',') + JSON.stringify(row);
+    first = false;
+    if (!(await writeChunk(res, chunk))) return;
+  }
+
+  res.end(']');
+};
+
+// XLSX : le classeur est construit en mémoire (format binaire non streamable)
+const sendXlsx = async (
+  res: Response,
+  source: DocumentSource,
+  columns: ExportColumn[],
+  filename: string,
+  sheetName: string
+) => {
+  const rows: any[][] = [columns.map(column => column.header)];
+  for await (const doc of source) {
+    rows.push(columns.map(column => formatCell(column.value(doc))));
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+  setDownloadHeaders(res, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', `${filename}.xlsx`);
+  res.send(buffer);
+};
+
+// Exporter une source de documents dans le format demandé
+export const sendExport = async (
+  res: Response,
+  format: ExportFormat,
+  source: DocumentSource,
+  columns: ExportColumn[],
+  options: { filename: string; sheetName: string }
+) => {
+  const filename = `${options.filename}_${new Date().toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'csv':
+      return streamCsv(res, source, columns, filename);
+    case 'xlsx':
+      return sendXlsx(res, source, columns, filename, options.sheetName);
+    case 'json':
+      return streamJson(res, source, columns, filename);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,58 @@
+// src/services/geo.service.ts
+import { Model, PipelineStage } from 'mongoose';
+import { NearQuery } from '../utils/geo';
+
+interface NearSearchOptions {
+  sort?: Record<string, 1 | -1>; // Par défaut : du plus proche au plus éloigné
+  skip: number;
+  limit: number;
+}
+
+// Étape $geoNear (index 2dsphere sur `geoLocation`) : `distance` en mètres, documents sans coordonnées exclus
+export const geoNearStage = (
+  model: Model<any>,
+  near: NearQuery,
+  filter: Record<string, any>
+): PipelineStage.GeoNear => ({
+  $geoNear: {
+    near: { type: 'Point', coordinates: [near.lng, near.lat] },
+    key: 'geoLocation',
+    distanceField: 'distance',
+    spherical: true,
+    // $geoNear ne passe pas par le cast Mongoose : on convertit les filtres (ObjectId, nombres...) nous-mêmes
+    query: model.find(filter).cast(),
+    ...(near.radiusKm ? { maxDistance: near.radiusKm * 1000 } : {})
+  }
+});
+
+// Rechercher des documents autour d'un point.
+// Chaque résultat porte `distance`, en kilomètres.
+export const findNear = async (
+  model: Model<any>,
+  near: NearQuery,
+  filter: Record<string, any>,
+  options: NearSearchOptions
+) => {
+  const pipeline: PipelineStage[] = [
+    geoNearStage(model, near, filter),
+    { $addFields: { distance: { $round: [{ $divide: ['$distance', 1000] }, 2] } } }
+  ];
+
+  if (options.sort) {
+    pipeline.push({ $sort: { ...options.sort, distance: 1 } });
+  }
+
+  pipeline.push({
+    $facet: {
+      data: [{ $skip: options.skip }, { $limit: options.limit }],
+      total: [{ $count: 'count' }]
+    }
+  });
+
+  const [result] = await model.aggregate(pipeline);
+
+  return {
+    data: result.data as any[],
+    total: (result.total[0]?.count as number) || 0
+  };
+};
\ No newline at end of file
@@ -0,0 +1,243 @@
+// src/services/mail.service.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { escapeHtml } from '../utils/text';
+import { SavedSearchMatchReason } from '../models/SavedSearch';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Un transport sait livrer un message ; le reste de l'application ne connaît que sendMail
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Transport de développement : chaque email est écrit en JSON dans un dossier "outbox"
+export const createOutboxTransport = (
+  directory = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'outbox')
+): MailTransport => ({
+  name: 'outbox',
+  async send(message) {
+    await fs.mkdir(directory, { recursive: true });
+    const filename = `${Date.now()}_${Math.round(Math.random() * 1E9)}.json`;
+    const payload = { ...message, from: getMailFrom(), date: new Date().toISOString() };
+    await fs.writeFile(path.join(directory, filename), JSON.stringify(payload, null, 2), 'utf-8');
+    console.log(`📧 Email écrit dans l'outbox: ${filename} (${message.to})`);
+  }
+});
+
+// Transport minimal : affiche l'email dans les logs
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  async send(message) {
+    console.log(`📧 Email pour ${message.to} - ${message.subject}\n${message.text}`);
+  }
+});
+
+const builtInTransports: Record<string, () => MailTransport> = {
+  outbox: () => createOutboxTransport(),
+  console: () => createConsoleTransport()
+};
+
+let transport: MailTransport | null = null;
+
+const getMailFrom = () => process.env.MAIL_FROM || 'EtudeSénégal <no-reply@etudesenegal.sn>';
+
+// Permet de brancher un autre transport (SMTP, API d'un fournisseur...) au démarrage
+export const setMailTransport = (customTransport: MailTransport) => {
+  transport = customTransport;
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || 'outbox';
+    const factory = builtInTransports[name];
+    if (!factory) {
+      console.warn(`⚠️ Transport email inconnu "${name}", utilisation de l'outbox`);
+    }
+    transport = (factory || builtInTransports.outbox)();
+  }
+  return transport;
+};
+
+export const sendMail = async (message: MailMessage) => {
+  await getMailTransport().send(message);
+};
+
+export const getFrontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// ===== Modèles d'emails =====
+
+export const sendVerificationEmail = async (
+  user: { email: string; firstName: string },
+  token: string
+) => {
+  const link = `${getFrontendUrl()}/verify-email/${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Confirmez votre adresse email - EtudeSénégal',
+    text: `Bonjour ${user.firstName},\n\n` +
+      `Merci de votre inscription sur EtudeSénégal. Confirmez votre adresse email en ouvrant ce lien :\n${link}\n\n` +
+      'Ce lien expire dans 24 heures.',
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p>` +
+      '<p>Merci de votre inscription sur EtudeSénégal. Confirmez votre adresse email en cliquant sur ce lien :</p>' +
+      `<p><a href="${link}">${link}</a></p>` +
+      '<p>Ce lien expire dans 24 heures.</p>'
+  });
+};
+
+export const sendPasswordResetEmail = async (
+  user: { email: string; firstName: string },
+  token: string
+) => {
+  const link = `${getFrontendUrl()}/reset-password/${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Réinitialisation de votre mot de passe - EtudeSénégal',
+    text: `Bonjour ${user.firstName},\n\n` +
+      `Une réinitialisation de mot de passe a été demandée pour votre compte. Choisissez un nouveau mot de passe ici :\n${link}\n\n` +
+      'Ce lien est valable 1 heure et ne peut être utilisé qu\'une seule fois. ' +
+      'Si vous n\'êtes pas à l\'origine de cette demande, ignorez cet email.',
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p>` +
+      '<p>Une réinitialisation de mot de passe a été demandée pour votre compte. Choisissez un nouveau mot de passe ici :</p>' +
+      `<p><a href="${link}">${link}</a></p>` +
+      '<p>Ce lien est valable 1 heure et ne peut être utilisé qu\'une seule fois. ' +
+      'Si vous n\'êtes pas à l\'origine de cette demande, ignorez cet email.</p>'
+  });
+};
+
+export const sendLandlordApplicationDecisionEmail = async (
+  user: { email: string; firstName: string },
+  approved: boolean,
+  reason?: string
+) => {
+  const decision = approved
+    ? 'Votre demande de compte propriétaire a été approuvée. Vous pouvez dès maintenant publier vos logements.'
+    : `Votre demande de compte propriétaire a été refusée.${reason ? ` Motif : ${reason}` : ''}`;
+
+  await sendMail({
+    to: user.email,
+    subject: `Demande de compte propriétaire ${approved ? 'approuvée' : 'refusée'} - EtudeSénégal`,
+    text: `Bonjour ${user.firstName},\n\n${decision}`,
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p><p>${escapeHtml(decision)}</p>`
+  });
+};
+
+const APPLICATION_STATUS_LABELS: Record<string, string> = {
+  submitted: 'soumise',
+  interview: 'retenue pour un entretien',
+  accepted: 'acceptée',
+  rejected: 'refusée',
+  waitlisted: 'placée sur liste d\'attente'
+};
+
+export const sendApplicationStatusEmail = async (
+  user: { email: string; firstName: string },
+  target: string,
+  status: string,
+  note?: string
+) => {
+  const link = `${getFrontendUrl()}/applications`;
+  const update = `Votre candidature à ${target} a été ${APPLICATION_STATUS_LABELS[status] || status}.` +
+    (note ? ` Message de l'établissement : ${note}` : '');
+
+  await sendMail({
+    to: user.email,
+    subject: 'Mise à jour de votre candidature - EtudeSénégal',
+    text: `Bonjour ${user.firstName},\n\n${update}\n\nSuivez vos candidatures ici :\n${link}`,
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p><p>${escapeHtml(update)}</p>` +
+      `<p><a href="${link}">Suivre mes candidatures</a></p>`
+  });
+};
+
+export const sendApplicationDeadlineReminderEmail = async (
+  user: { email: string; firstName: string },
+  target: string,
+  deadline: Date,
+  daysLeft: number
+) => {
+  const link = `${getFrontendUrl()}/applications`;
+  const date = deadline.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' });
+  const reminder = `Votre candidature à ${target} est encore à l'état de brouillon. ` +
+    `La date limite de dépôt est le ${date} (${daysLeft <= 1 ? 'dans moins de 24 heures' : `dans ${daysLeft} jours`}).`;
+
+  await sendMail({
+    to: user.email,
+    subject: `Rappel : date limite de candidature le ${date} - EtudeSénégal`,
+    text: `Bonjour ${user.firstName},\n\n${reminder}\n\nFinalisez votre dossier ici :\n${link}`,
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p><p>${escapeHtml(reminder)}</p>` +
+      `<p><a href="${link}">Finaliser ma candidature</a></p>`
+  });
+};
+
+export const sendVisitUpdateEmail = async (
+  user: { email: string; firstName: string },
+  housingTitle: string,
+  update: string
+) => {
+  const link = `${getFrontendUrl()}/visits`;
+
+  await sendMail({
+    to: user.email,
+    subject: `Visite du logement "${housingTitle}" - EtudeSénégal`,
+    text: `Bonjour ${user.firstName},\n\n${update}\n\nRetrouvez vos visites ici :\n${link}`,
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p><p>${escapeHtml(update)}</p>` +
+      `<p><a href="${link}">Voir mes visites</a></p>`
+  });
+};
+
+export interface SavedSearchAlert {
+  searchName: string;
+  housing: Array<{ _id: any; title: string; location: string; neighborhood?: string; price: number }>;
+}
+
+const SAVED_SEARCH_ALERT_WORDING: Record<SavedSearchMatchReason, { intro: string; subject: string }> = {
+  published: { intro: 'Un nouveau logement correspond', subject: 'Nouveau logement' },
+  available_again: { intro: 'Un logement de nouveau disponible correspond', subject: 'De nouveau disponible' },
+  updated: { intro: 'Un logement mis à jour correspond désormais', subject: 'Logement mis à jour' }
+};
+
+// Alerte immédiate (une recherche) ou récapitulatif (plusieurs recherches)
+export const sendSavedSearchAlertEmail = async (
+  user: { email: string; firstName: string },
+  alerts: SavedSearchAlert[],
+  digest: boolean,
+  reason: SavedSearchMatchReason = 'published'
+) => {
+  const wording = SAVED_SEARCH_ALERT_WORDING[reason];
+  const total = alerts.reduce((sum, alert) => sum + alert.housing.length, 0);
+  const housingLink = (housing: SavedSearchAlert['housing'][number]) => `${getFrontendUrl()}/housing/${housing._id}`;
+  const describe = (housing: SavedSearchAlert['housing'][number]) =>
+    `${housing.title} - ${housing.neighborhood ? `${housing.neighborhood}, ` : ''}${housing.location} - ` +
+    `${housing.price.toLocaleString('fr-FR')} FCFA/mois`;
+
+  const intro = digest
+    ? `${total} nouveau(x) logement(s) correspondent à vos recherches enregistrées :`
+    : `${wording.intro} à votre recherche "${alerts[0].searchName}" :`;
+
+  await sendMail({
+    to: user.email,
+    subject: digest
+      ? `${total} nouveau(x) logement(s) pour vos recherches - EtudeSénégal`
+      : `${wording.subject} : ${alerts[0].housing[0].title} - EtudeSénégal`,
+    text: `Bonjour ${user.firstName},\n\n${intro}\n\n` +
+      alerts.map(alert =>
+        (digest ? `${alert.searchName}\n` : '') +
+        alert.housing.map(housing => `- ${describe(housing)}\n  ${housingLink(housing)}`).join('\n')
+      ).join('\n\n') +
+      `\n\nGérez vos alertes ici : ${getFrontendUrl()}/saved-searches`,
+    html: `<p>Bonjour ${escapeHtml(user.firstName)},</p><p>${escapeHtml(intro)}</p>` +
+      alerts.map(alert =>
+        (digest ? `<h3>${escapeHtml(alert.searchName)}</h3>` : '') +
+        '<ul>' +
+        alert.housing.map(housing => `<li><a href="${housingLink(housing)}">${escapeHtml(describe(housing))}</a></li>`).join('') +
+        '</ul>'
+      ).join('') +
+      `<p><a href="${getFrontendUrl()}/saved-searches">Gérer mes alertes</a></p>`
+  });
+};
\ No newline at end of file
@@ -0,0 +1,37 @@
+// src/services/rating.service.ts
+import mongoose from 'mongoose';
+import { Establishment, Review } from '../models';
+
+const round1 = (value: number) => Math.round((value || 0) * 10) / 10;
+
+// Recalculer la note d'un établissement à partir de ses avis publiés
+export const recomputeEstablishmentRating = async (establishmentId: string | mongoose.Types.ObjectId) => {
+  const [stats] = await Review.aggregate([
+    { $match: { establishment: new mongoose.Types.ObjectId(String(establishmentId)), status: 'published' } },
+    {
+      $group: {
+        _id: null,
+        count: { $sum: 1 },
+        overall: { $avg: '$overall' },
+        teaching: { $avg: '$scores.teaching' },
+        facilities: { $avg: '$scores.facilities' },
+        administration: { $avg: '$scores.administration' },
+        employability: { $avg: '$scores.employability' }
+      }
+    }
+  ]);
+
+  await Establishment.updateOne(
+    { _id: establishmentId },
+    {
+      rating: round1(stats?.overall),
+      reviewsCount: stats?.count || 0,
+      ratingBreakdown: {
+        teaching: round1(stats?.teaching),
+        facilities: round1(stats?.facilities),
+        administration: round1(stats?.administration),
+        employability: round1(stats?.employability)
+      }
+    }
+  );
+};
\ No newline at end of file
@@ -0,0 +1,176 @@
+// src/services/savedSearch.service.ts
+import { Housing, Notification, SavedSearch, User } from '../models';
+import { IHousing } from '../models/Housing';
+import { ISavedSearch, SavedSearchMatchReason } from '../models/SavedSearch';
+import { sendSavedSearchAlertEmail, SavedSearchAlert } from './mail.service';
+import { runPeriodically } from '../utils/scheduler';
+import { accentInsensitivePattern } from '../utils/text';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIGEST_PERIOD_MS: Record<string, number> = { daily: DAY_MS, weekly: 7 * DAY_MS };
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Nombre de logements déjà signalés mémorisés par recherche
+const NOTIFIED_HISTORY_LIMIT = 500;
+const ALERT_HOUSING_FIELDS = 'title location neighborhood price';
+
+const groupByUser = (searches: ISavedSearch[]) => {
+  const groups = new Map<string, ISavedSearch[]>();
+  searches.forEach(search => {
+    const userId = search.user.toString();
+    groups.set(userId, [...(groups.get(userId) || []), search]);
+  });
+  return groups;
+};
+
+export interface SavedSearchTrigger {
+  // available_again : les recherches déjà alertées pour ce logement le sont de nouveau
+  reason?: SavedSearchMatchReason;
+}
+
+const NOTIFICATION_TITLES: Record<SavedSearchMatchReason, string> = {
+  published: 'Nouveau logement pour',
+  available_again: 'Logement de nouveau disponible pour',
+  updated: 'Logement mis à jour pour'
+};
+
+// Recherches enregistrées (alertes actives) dont les filtres correspondent au logement,
+// avec la même sémantique que GET /api/housing (ville : sous-chaîne insensible aux accents)
+export const findMatchingSavedSearches = async (housing: IHousing, { reason = 'published' }: SavedSearchTrigger = {}) => {
+  const candidates = await SavedSearch.find({
+    alertsEnabled: true,
+    ...(reason !== 'available_again' && { notifiedHousing: { $ne: housing._id } }),
+    ...(housing.owner && { user: { $ne: housing.owner } }),
+    $and: [
+      { $or: [{ 'filters.type': null }, { 'filters.type': housing.type }] },
+      { $or: [{ 'filters.minPrice': null }, { 'filters.minPrice': { $lte: housing.price } }] },
+      { $or: [{ 'filters.maxPrice': null }, { 'filters.maxPrice': { $gte: housing.price } }] },
+      { $or: [{ 'filters.bedrooms': null }, { 'filters.bedrooms': housing.bedrooms }] }
+    ]
+  });
+
+  return candidates.filter(search =>
+    !search.filters?.location ||
+    new RegExp(accentInsensitivePattern(search.filters.location), 'i').test(housing.location)
+  );
+};
+
+// Alerter les utilisateurs dont une recherche correspond à un logement publié, de nouveau disponible ou modifié :
+// notification in-app immédiate, email immédiat ou mis de côté pour le prochain récapitulatif
+export const notifySavedSearches = async (housing: IHousing, trigger: SavedSearchTrigger = {}) => {
+  if (!housing.isAvailable) return 0;
+  const reason = trigger.reason || 'published';
+
+  const matches = await findMatchingSavedSearches(housing, trigger);
+  if (matches.length === 0) return 0;
+
+  const now = new Date();
+  await SavedSearch.bulkWrite(matches.map(search => ({
+    updateOne: {
+      filter: { _id: search._id },
+      update: {
+        ...(!search.notifiedHousing.some(id => id.equals(housing._id as any)) && {
+          $push: { notifiedHousing: { $each: [housing._id], $slice: -NOTIFIED_HISTORY_LIMIT } }
+        }),
+        $inc: { matchCount: 1 },
+        $set: { lastMatchAt: now },
+        ...(DIGEST_PERIOD_MS[search.emailFrequency] && { $addToSet: { pendingDigest: housing._id } })
+      }
+    }
+  })));
+
+  const byUser = groupByUser(matches);
+  const summary = `${housing.title} - ${housing.neighborhood}, ${housing.location} - ` +
+    `${housing.price.toLocaleString('fr-FR')} FCFA/mois`;
+
+  // Une seule notification par utilisateur, même si plusieurs de ses recherches correspondent
+  await Notification.insertMany([...byUser].map(([userId, searches]) => ({
+    user: userId,
+    type: 'saved_search_match',
+    title: `${NOTIFICATION_TITLES[reason]} "${searches.map(search => search.name).join('", "')}"`,
+    message: summary,
+    link: `/housing/${housing._id}`,
+    data: {
+      reason,
+      housing: housing._id,
+      savedSearches: searches.map(search => search._id)
+    }
+  })));
+
+  const instantUsers = [...byUser].filter(([, searches]) => searches.some(search => search.emailFrequency === 'instant'));
+  if (instantUsers.length > 0) {
+    const users = await User.find({ _id: { $in: instantUsers.map(([userId]) => userId) } }).select('email firstName');
+    for (const user of users) {
+      const search = (byUser.get(String(user._id)) as ISavedSearch[]).find(item => item.emailFrequency === 'instant');
+      try {
+        await sendSavedSearchAlertEmail(user, [{ searchName: (search as ISavedSearch).name, housing: [housing] }], false, reason);
+      } catch (mailError) {
+        console.error(`Erreur envoi alerte de recherche à ${user._id}:`, mailError);
+      }
+    }
+  }
+
+  return matches.length;
+};
+
+// Envoyer les récapitulatifs quotidiens / hebdomadaires arrivés à échéance (un email par utilisateur)
+export const sendSavedSearchDigests = async (now = new Date()) => {
+  const searches = await SavedSearch.find({
+    emailFrequency: { $in: Object.keys(DIGEST_PERIOD_MS) },
+    'pendingDigest.0': { $exists: true }
+  });
+
+  const due = searches.filter(search => {
+    const since = search.lastDigestAt || (search as any).createdAt as Date;
+    return now.getTime() - since.getTime() >= DIGEST_PERIOD_MS[search.emailFrequency];
+  });
+
+  let sent = 0;
+  for (const [userId, userSearches] of groupByUser(due)) {
+    const [user, housing] = await Promise.all([
+      User.findById(userId).select('email firstName'),
+      // Les logements repassés indisponibles entre-temps ne sont plus proposés
+      Housing.find({
+        _id: { $in: userSearches.flatMap(search => search.pendingDigest) },
+        isAvailable: true
+      }).select(ALERT_HOUSING_FIELDS)
+    ]);
+
+    const alerts: SavedSearchAlert[] = userSearches
+      .map(search => ({
+        searchName: search.name,
+        housing: housing.filter(item => search.pendingDigest.some(id => id.equals(item._id as any)))
+      }))
+      .filter(alert => alert.housing.length > 0);
+
+    try {
+      if (user && alerts.length > 0) {
+        await sendSavedSearchAlertEmail(user, alerts, true);
+        sent++;
+      }
+    } catch (mailError) {
+      console.error(`Erreur envoi récapitulatif de recherches à ${userId}:`, mailError);
+      continue;
+    }
+
+    // Seuls les logements envoyés sont retirés (d'autres ont pu arriver pendant l'envoi)
+    await SavedSearch.bulkWrite(userSearches.map(search => ({
+      updateOne: {
+        filter: { _id: search._id },
+        update: {
+          $pullAll: { pendingDigest: [...search.pendingDigest] },
+          $set: { lastDigestAt: now }
+        }
+      }
+    })));
+  }
+
+  return sent;
+};
+
+// Vérification périodique lancée au démarrage du serveur
+export const startSavedSearchDigests = () =>
+  runPeriodically('récapitulatifs de recherches', async () => {
+    const sent = await sendSavedSearchDigests();
+    if (sent > 0) console.log(`📬 ${sent} récapitulatif(s) de recherches envoyé(s)`);
+  }, DIGEST_CHECK_INTERVAL_MS);
\ No newline at end of file
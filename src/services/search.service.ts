@@ -0,0 +1,264 @@
+// src/services/search.service.ts
+import { Model } from 'mongoose';
+import { accentInsensitivePattern, escapeHtml, normalizeForSearch } from '../utils/text';
+import { correctPlaceNames, PlaceCorrection } from '../utils/placeNames';
+
+export const MAX_QUERY_LENGTH = 100;
+const SNIPPET_LENGTH = 160;
+
+export interface SearchQuery {
+  original: string;
+  text: string; // Requête envoyée à $text (noms de lieux corrigés)
+  terms: string[]; // Mots utilisés pour surligner les extraits
+  corrections: PlaceCorrection[];
+}
+
+export interface Highlight {
+  field: string;
+  snippet: string;
+}
+
+// Nettoyer la saisie : longueur bornée, guillemets et opérateurs de négation $text retirés
+// Retourne null si la requête est vide après nettoyage
+export const parseSearchQuery = (raw: any): SearchQuery | null => {
+  const cleaned = String(raw ?? '')
+    .slice(0, MAX_QUERY_LENGTH)
+    .replace(/["\\]/g, ' ')
+    .replace(/(^|\s)-+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!cleaned) return null;
+
+  const { text, corrections } = correctPlaceNames(cleaned);
+  const terms = [...new Set(normalizeForSearch(text).split(' ').filter(term => term.length >= 2))];
+
+  return { original: cleaned, text, terms, corrections };
+};
+
+// Filtres de la liste des logements (GET /api/housing), partagés avec l'export et les recherches enregistrées
+export const buildHousingQuery = (params: any) => {
+  const { type, location, minPrice, maxPrice, bedrooms, available } = params;
+  const query: any = {};
+
+  if (type) query.type = type;
+  if (location) query.location = { $regex: accentInsensitivePattern(String(location)), $options: 'i' };
+  if (minPrice || maxPrice) {
+    query.price = {};
+    if (minPrice) query.price.$gte = Number(minPrice);
+    if (maxPrice) query.price.$lte = Number(maxPrice);
+  }
+  if (bedrooms) query.bedrooms = Number(bedrooms);
+  if (available !== undefined) {
+    query.isAvailable = available === 'true';
+  }
+
+  return query;
+};
+
+// Extrait centré sur la première occurrence, occurrences entourées de <mark> (texte échappé)
+const buildSnippet = (value: string, matcher: RegExp) => {
+  matcher.lastIndex = 0;
+  const match = matcher.exec(value);
+  if (!match) return null;
+
+  let start = 0;
+  let end = value.length;
+  if (value.length > SNIPPET_LENGTH) {
+    start = Math.max(0, match.index - Math.floor(SNIPPET_LENGTH / 3));
+    end = Math.min(value.length, start + SNIPPET_LENGTH);
+  }
+
+  const excerpt = escapeHtml(value.slice(start, end)).replace(matcher, found => `<mark>${found}</mark>`);
+  return `${start > 0 ? '…' : ''}${excerpt}${end < value.length ? '…' : ''}`;
+};
+
+// Extraits surlignés pour chaque champ contenant un des mots recherchés
+export const buildHighlights = (doc: any, fields: string[], terms: string[]): Highlight[] => {
+  if (terms.length === 0) return [];
+
+  // Mots entiers ou préfixes (la recherche $text est racinisée : "informatique" trouve "informatiques")
+  const matcher = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(accentInsensitivePattern).join('|')})\\p{L}*`, 'giu');
+  const highlights: Highlight[] = [];
+
+  fields.forEach(field => {
+    const raw = doc[field];
+    const values: string[] = Array.isArray(raw) ? raw.map(String) : raw ? [String(raw)] : [];
+
+    for (const value of values) {
+      const snippet = buildSnippet(value, matcher);
+      if (snippet) {
+        highlights.push({ field, snippet });
+        break;
+      }
+    }
+  });
+
+  return highlights;
+};
+
+interface TextSearchOptions {
+  filter?: Record<string, any>;
+  skip: number;
+  limit: number;
+  highlightFields: string[];
+}
+
+// Recherche plein texte pondérée (index text du modèle), triée par pertinence
+export const textSearch = async (model: Model<any>, search: SearchQuery, options: TextSearchOptions) => {
+  const query = { ...options.filter, $text: { $search: search.text } };
+
+  const [docs, total] = await Promise.all([
+    model.find(query, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' } })
+      .skip(options.skip)
+      .limit(options.limit)
+      .lean(),
+    model.countDocuments(query)
+  ]);
+
+  const data = (docs as any[]).map(doc => ({
+    ...doc,
+    score: Math.round(doc.score * 100) / 100,
+    highlights: buildHighlights(doc, options.highlightFields, search.terms)
+  }));
+
+  return { data, total };
+};
+
+// Tranches de prix (FCFA) proposées en facettes ; la dernière tranche n'a pas de plafond
+export interface PriceBand {
+  id: string;
+  label: string;
+  max?: number;
+}
+
+export const HOUSING_PRICE_BANDS: PriceBand[] = [
+  { id: 'lt50k', label: 'Moins de 50 000 FCFA / mois', max: 50000 },
+  { id: '50k-100k', label: '50 000 à 100 000 FCFA / mois', max: 100000 },
+  { id: '100k-200k', label: '100 000 à 200 000 FCFA / mois', max: 200000 },
+  { id: 'gt200k', label: 'Plus de 200 000 FCFA / mois' }
+];
+
+export const TUITION_PRICE_BANDS: PriceBand[] = [
+  { id: 'lt500k', label: 'Moins de 500 000 FCFA / an', max: 500000 },
+  { id: '500k-1m', label: '500 000 à 1 000 000 FCFA / an', max: 1000000 },
+  { id: '1m-2m', label: '1 à 2 millions FCFA / an', max: 2000000 },
+  { id: 'gt2m', label: 'Plus de 2 millions FCFA / an' }
+];
+
+// Condition Mongo correspondant à une tranche (undefined si la tranche est inconnue)
+export const priceBandCondition = (bands: PriceBand[], bandId: string) => {
+  const index = bands.findIndex(band => band.id === bandId);
+  if (index === -1) return undefined;
+
+  const condition: Record<string, number> = {};
+  if (index > 0) condition.$gte = bands[index - 1].max as number;
+  if (bands[index].max !== undefined) condition.$lt = bands[index].max as number;
+  return condition;
+};
+
+// Facette : valeurs distinctes d'un champ, ou tranches de prix
+export type FacetDefinition =
+  | { field: string }
+  | { field: string; bands: PriceBand[] };
+
+export interface FacetValue {
+  value: any;
+  label?: string;
+  count: number;
+}
+
+const facetStages = (definition: FacetDefinition): any[] => {
+  const field = `$${definition.field}`;
+
+  if ('bands' in definition) {
+    const bands = definition.bands;
+    return [
+      {
+        $group: {
+          _id: {
+            $switch: {
+              branches: bands
+                .filter(band => band.max !== undefined)
+                .map(band => ({ case: { $lt: [field, band.max] }, then: band.id })),
+              default: bands[bands.length - 1].id
+            }
+          },
+          count: { $sum: 1 }
+        }
+      }
+    ];
+  }
+
+  return [
+    { $unwind: field },
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: 20 }
+  ];
+};
+
+const formatFacet = (definition: FacetDefinition, rows: Array<{ _id: any; count: number }>): FacetValue[] => {
+  if ('bands' in definition) {
+    // Ordre des tranches conservé, tranches vides incluses
+    return definition.bands.map(band => ({
+      value: band.id,
+      label: band.label,
+      count: rows.find(row => row._id === band.id)?.count || 0
+    }));
+  }
+
+  return rows
+    .filter(row => row._id !== null && row._id !== undefined && row._id !== '')
+    .map(row => ({ value: row._id, count: row.count }));
+};
+
+interface FacetedSearchOptions {
+  filter?: Record<string, any>; // Filtres sur la collection elle-même (utilisables avec l'index text)
+  lookup?: any[]; // Étapes de jointure ajoutées après la recherche
+  postFilter?: Record<string, any>; // Filtres portant sur les champs joints
+  facets: Record<string, FacetDefinition>;
+  skip: number;
+  limit: number;
+  highlightFields: string[];
+}
+
+// Recherche plein texte paginée avec total et facettes, en un seul aller-retour
+export const facetedTextSearch = async (model: Model<any>, search: SearchQuery, options: FacetedSearchOptions) => {
+  const pipeline: any[] = [
+    { $match: { ...options.filter, $text: { $search: search.text } } },
+    { $addFields: { score: { $meta: 'textScore' } } },
+    ...(options.lookup || [])
+  ];
+
+  if (options.postFilter && Object.keys(options.postFilter).length > 0) {
+    pipeline.push({ $match: options.postFilter });
+  }
+
+  const facetPipelines: Record<string, any[]> = {
+    data: [{ $sort: { score: -1 } }, { $skip: options.skip }, { $limit: options.limit }],
+    total: [{ $count: 'count' }]
+  };
+  Object.entries(options.facets).forEach(([name, definition]) => {
+    facetPipelines[name] = facetStages(definition);
+  });
+  pipeline.push({ $facet: facetPipelines });
+
+  const [result] = await model.aggregate(pipeline);
+
+  const facets: Record<string, FacetValue[]> = {};
+  Object.entries(options.facets).forEach(([name, definition]) => {
+    facets[name] = formatFacet(definition, result[name]);
+  });
+
+  return {
+    data: (result.data as any[]).map(doc => ({
+      ...doc,
+      score: Math.round(doc.score * 100) / 100,
+      highlights: buildHighlights(doc, options.highlightFields, search.terms)
+    })),
+    total: (result.total[0]?.count as number) || 0,
+    facets
+  };
+};
\ No newline at end of file
@@ -0,0 +1,58 @@
+// src/services/spreadsheet.service.ts
+import * as XLSX from 'xlsx';
+
+export type SpreadsheetRow = Record<string, any>;
+
+const isCsvFile = (filename: string, mimetype?: string) =>
+  /\.csv$/i.test(filename) || mimetype === 'text/csv';
+
+// Lire la première feuille d'un fichier XLSX/XLS/CSV en tableau d'objets (clé = en-tête de colonne)
+export const parseSpreadsheet = (buffer: Buffer, filename: string, mimetype?: string): SpreadsheetRow[] => {
+  // Les CSV sont décodés en UTF-8 (accents) ; le séparateur , ou ; est détecté automatiquement
+  const workbook = isCsvFile(filename, mimetype)
+    ? XLSX.read(buffer.toString('utf-8').replace(/^\uFEFF/, ''), { type: 'string' })
+    : XLSX.read(buffer, { type: 'buffer', cellDates: true });
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    return [];
+  }
+
+  return XLSX.utils.sheet_to_json<SpreadsheetRow>(workbook.Sheets[sheetName], {
+    defval: '',
+    raw: false
+  });
+};
+
+// Normaliser un libellé pour les comparaisons : minuscules, sans accents ni ponctuation
+export const normalizeLabel = (value: string) =>
+  value
+    .toString()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Interpréter "Oui"/"Non", "true", "1", "x"...
+export const parseBooleanCell = (value: any) => {
+  if (typeof value === 'boolean') return value;
+  return ['oui', 'yes', 'true', 'vrai', '1', 'x', 'o'].includes(normalizeLabel(String(value ?? '')));
+};
+
+// Interpréter un nombre saisi à la française ("12 500", "4,5")
+export const parseNumberCell = (value: any): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  const parsed = Number(String(value).replace(/\s/g, '').replace(',', '.'));
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Découper une cellule contenant une liste ("Informatique; Droit, Gestion")
+export const parseListCell = (value: any): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  return String(value ?? '')
+    .split(/[;,|\n]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+};
\ No newline at end of file
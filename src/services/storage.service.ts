@@ -0,0 +1,177 @@
+// src/services/storage.service.ts
+import { Request, Response, NextFunction } from 'express';
+import multer, { FileFilterCallback } from 'multer';
+import mongoose from 'mongoose';
+
+// Fichier stocké dans GridFS, tel qu'il est référencé dans les documents Mongo
+export interface StoredFile {
+  fileId: string;
+  filename: string;
+  originalName: string;
+  size: number;
+  mimetype: string;
+}
+
+const DOCUMENT_MIME_TYPES = /pdf|jpeg|jpg|png|webp/;
+
+const documentFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: FileFilterCallback
+) => {
+  if (DOCUMENT_MIME_TYPES.test(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Type de fichier non autorisé. Formats acceptés: PDF, JPEG, PNG, WEBP.'));
+  }
+};
+
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max
+    files: 5
+  },
+  fileFilter: documentFilter
+});
+
+const SPREADSHEET_EXTENSIONS = /\.(xlsx|xls|csv)$/i;
+
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB max
+    files: 1
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+    if (SPREADSHEET_EXTENSIONS.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Type de fichier non autorisé. Formats acceptés: XLSX, XLS, CSV.'));
+    }
+  }
+});
+
+// Exécuter un middleware multer en renvoyant ses erreurs (taille, type...) en 400
+const withUploadErrors = (middleware: (req: Request, res: Response, next: NextFunction) => void) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    middleware(req, res, (error: any) => {
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error.message || 'Erreur lors de l\'envoi des fichiers'
+        });
+      }
+      next();
+    });
+  };
+};
+
+export const uploadDocuments = (field: string, maxCount = 5) =>
+  withUploadErrors(documentUpload.array(field, maxCount));
+
+export const uploadSpreadsheet = (field: string) =>
+  withUploadErrors(spreadsheetUpload.single(field));
+
+export const getBucket = (bucketName: string) => {
+  if (!mongoose.connection.db) {
+    throw new Error('Base de données MongoDB non disponible');
+  }
+
+  return new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName });
+};
+
+// Écrire un fichier reçu par multer dans un bucket GridFS
+export const storeFile = (
+  bucketName: string,
+  file: Express.Multer.File,
+  metadata: Record<string, any> = {}
+): Promise<StoredFile> => {
+  const bucket = getBucket(bucketName);
+  const filename = `${bucketName}_${Date.now()}_${Math.round(Math.random() * 1E9)}_${file.originalname}`;
+
+  return new Promise<StoredFile>((resolve, reject) => {
+    const writeStream = bucket.openUploadStream(filename, {
+      contentType: file.mimetype,
+      metadata: {
+        ...metadata,
+        originalName: file.originalname,
+        uploadDate: new Date()
+      }
+    });
+
+    writeStream.on('finish', () => {
+      resolve({
+        fileId: writeStream.id.toString(),
+        filename,
+        originalName: file.originalname,
+        size: file.size,
+        mimetype: file.mimetype
+      });
+    });
+
+    writeStream.on('error', reject);
+
+    writeStream.write(file.buffer);
+    writeStream.end();
+  });
+};
+
+export const storeFiles = async (
+  bucketName: string,
+  files: Express.Multer.File[],
+  metadata: Record<string, any> = {}
+) => {
+  const stored: StoredFile[] = [];
+  for (const file of files) {
+    stored.push(await storeFile(bucketName, file, metadata));
+  }
+  return stored;
+};
+
+// Envoyer un fichier GridFS dans la réponse HTTP
+export const streamFile = async (bucketName: string, fileId: string, res: Response) => {
+  if (!mongoose.Types.ObjectId.isValid(fileId)) {
+    return res.status(400).json({
+      success: false,
+      message: 'ID de fichier invalide'
+    });
+  }
+
+  const bucket = getBucket(bucketName);
+  const _id = new mongoose.Types.ObjectId(fileId);
+  const [file] = await bucket.find({ _id }).toArray();
+
+  if (!file) {
+    return res.status(404).json({
+      success: false,
+      message: 'Fichier non trouvé'
+    });
+  }
+
+  res.set('Content-Type', file.contentType || 'application/octet-stream');
+  res.set('Content-Disposition', `inline; filename="${encodeURIComponent(file.metadata?.originalName || file.filename)}"`);
+
+  const downloadStream = bucket.openDownloadStream(_id);
+  downloadStream.on('error', (error: Error) => {
+    console.error('Erreur lecture fichier GridFS:', error);
+    if (!res.headersSent) {
+      res.status(404).json({
+        success: false,
+        message: 'Fichier non trouvé'
+      });
+    }
+  });
+  downloadStream.pipe(res);
+};
+
+export const deleteFiles = async (bucketName: string, fileIds: string[]) => {
+  const bucket = getBucket(bucketName);
+  for (const fileId of fileIds) {
+    try {
+      await bucket.delete(new mongoose.Types.ObjectId(fileId));
+    } catch (error) {
+      console.error(`Erreur suppression fichier ${fileId}:`, error);
+    }
+  }
+};
\ No newline at end of file
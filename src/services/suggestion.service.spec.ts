@@ -0,0 +1,62 @@
+// src/services/suggestion.service.spec.ts
+import { Establishment, Housing, Program } from '../models';
+import { getSuggestions, clearSuggestionCache } from './suggestion.service';
+
+// Établissements renvoyés par le prochain chargement du vocabulaire, résolus à la demande
+const mockEstablishmentLoads = () => {
+  const loads: Array<(names: string[]) => void> = [];
+  jest.spyOn(Establishment, 'find').mockImplementation(() => ({
+    select: () => ({
+      lean: () => new Promise(resolve => {
+        loads.push(names => resolve(names.map(name => ({ name, type: 'university', location: 'Dakar', rating: 4 }))));
+      })
+    })
+  }) as unknown as ReturnType<typeof Establishment.find>);
+  return loads;
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('clearSuggestionCache', () => {
+  beforeEach(() => {
+    clearSuggestionCache();
+    jest.spyOn(Program, 'aggregate').mockResolvedValue([]);
+    jest.spyOn(Establishment, 'aggregate').mockResolvedValue([]);
+    jest.spyOn(Housing, 'aggregate').mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('recharge le vocabulaire après un vidage', async () => {
+    const loads = mockEstablishmentLoads();
+
+    const first = getSuggestions('uca', 5);
+    await flush();
+    loads[0](['UCAD']);
+    expect((await first).establishments.map(item => item.label)).toEqual(['UCAD']);
+
+    clearSuggestionCache();
+    const second = getSuggestions('uca', 5);
+    await flush();
+    loads[1](['UCAD', 'UCAO']);
+
+    expect((await second).establishments.map(item => item.label)).toEqual(['UCAD', 'UCAO']);
+  });
+
+  it('ne met pas en cache un chargement lancé avant le vidage', async () => {
+    const loads = mockEstablishmentLoads();
+
+    const stale = getSuggestions('uca', 5);
+    await flush();
+    clearSuggestionCache();
+    loads[0](['Ancien nom']);
+    await stale;
+
+    const fresh = getSuggestions('uca', 5);
+    await flush();
+    expect(loads).toHaveLength(2);
+    loads[1](['UCAD']);
+
+    expect((await fresh).establishments.map(item => item.label)).toEqual(['UCAD']);
+  });
+});
\ No newline at end of file
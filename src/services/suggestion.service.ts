@@ -0,0 +1,141 @@
+// src/services/suggestion.service.ts
+import { Establishment, Housing, Program } from '../models';
+import { createCache } from '../utils/cache';
+import { normalizeForSearch } from '../utils/text';
+
+export const SUGGESTION_GROUPS = ['establishments', 'programs', 'cities', 'neighborhoods', 'amenities'] as const;
+export type SuggestionGroup = typeof SUGGESTION_GROUPS[number];
+
+export interface Suggestion {
+  label: string;
+  count?: number; // Nombre d'établissements / de logements concernés
+  [key: string]: any;
+}
+
+type Vocabulary = Record<SuggestionGroup, Array<Suggestion & { key: string }>>;
+
+// Le vocabulaire (noms, villes, quartiers...) est rechargé depuis Mongo au plus toutes les 5 minutes ;
+// les réponses par préfixe sont mises en cache pour absorber la frappe au clavier.
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+const vocabularyCache = createCache<Vocabulary>({ ttlMs: VOCABULARY_TTL_MS, maxEntries: 1 });
+const resultCache = createCache<Record<SuggestionGroup, Suggestion[]>>({ ttlMs: 60 * 1000, maxEntries: 1000 });
+
+// Un seul chargement à la fois, même si plusieurs requêtes arrivent ensemble
+let pendingVocabulary: Promise<Vocabulary> | null = null;
+// Incrémenté à chaque vidage : un chargement lancé avant n'est pas mis en cache
+let cacheGeneration = 0;
+
+const withKey = <S extends Suggestion>(suggestion: S) => ({ ...suggestion, key: normalizeForSearch(suggestion.label) });
+
+const loadVocabulary = async (): Promise<Vocabulary> => {
+  const [establishments, programs, establishmentCities, housingCities, neighborhoods, amenities] = await Promise.all([
+    Establishment.find().select('name type location rating').lean(),
+    Program.aggregate([
+      { $match: { isActive: true } },
+      { $group: { _id: '$name', count: { $sum: 1 } } }
+    ]),
+    Establishment.aggregate([{ $group: { _id: '$location', count: { $sum: 1 } } }]),
+    Housing.aggregate([
+      { $match: { isAvailable: true } },
+      { $group: { _id: '$location', count: { $sum: 1 } } }
+    ]),
+    Housing.aggregate([
+      { $match: { isAvailable: true } },
+      { $group: { _id: { neighborhood: '$neighborhood', city: '$location' }, count: { $sum: 1 } } }
+    ]),
+    Housing.aggregate([
+      { $match: { isAvailable: true } },
+      { $unwind: '$amenities' },
+      { $group: { _id: '$amenities', count: { $sum: 1 } } }
+    ])
+  ]);
+
+  // Villes : établissements et logements confondus
+  const cities = new Map<string, number>();
+  [...establishmentCities, ...housingCities].forEach(({ _id, count }) => {
+    if (_id) cities.set(_id, (cities.get(_id) || 0) + count);
+  });
+
+  return {
+    establishments: establishments.map(establishment => withKey({
+      label: establishment.name,
+      _id: establishment._id,
+      type: establishment.type,
+      location: establishment.location,
+      rating: establishment.rating
+    })),
+    programs: programs.filter(program => program._id).map(program => withKey({ label: program._id, count: program.count })),
+    cities: [...cities].map(([label, count]) => withKey({ label, count })),
+    neighborhoods: neighborhoods
+      .filter(item => item._id.neighborhood)
+      .map(item => withKey({ label: item._id.neighborhood, city: item._id.city, count: item.count })),
+    amenities: amenities.filter(item => item._id).map(item => withKey({ label: item._id, count: item.count }))
+  };
+};
+
+const getVocabulary = async () => {
+  const cached = vocabularyCache.get('vocabulary');
+  if (cached) return cached;
+
+  if (!pendingVocabulary) {
+    const generation = cacheGeneration;
+    const pending: Promise<Vocabulary> = loadVocabulary()
+      .then(vocabulary => {
+        if (generation === cacheGeneration) vocabularyCache.set('vocabulary', vocabulary);
+        return vocabulary;
+      })
+      .finally(() => {
+        if (pendingVocabulary === pending) pendingVocabulary = null;
+      });
+    pendingVocabulary = pending;
+  }
+
+  return pendingVocabulary;
+};
+
+// 0 = identique, 1 = commence par la saisie, 2 = un des mots commence par la saisie
+const matchRank = (key: string, prefix: string) => {
+  if (key === prefix) return 0;
+  if (key.startsWith(prefix)) return 1;
+  if (key.includes(` ${prefix}`)) return 2;
+  return -1;
+};
+
+const rankSuggestions = (items: Vocabulary[SuggestionGroup], prefix: string, limit: number) =>
+  items
+    .map(item => ({ item, rank: matchRank(item.key, prefix) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      (b.item.count ?? b.item.rating ?? 0) - (a.item.count ?? a.item.rating ?? 0) ||
+      a.item.label.length - b.item.label.length
+    )
+    .slice(0, limit)
+    .map(({ item: { key, ...suggestion } }) => suggestion);
+
+// Suggestions groupées pour la saisie `query` (déjà limitée en longueur par l'appelant)
+export const getSuggestions = async (query: string, limit: number) => {
+  const prefix = normalizeForSearch(query);
+  const cacheKey = `${limit}:${prefix}`;
+
+  const cached = resultCache.get(cacheKey);
+  if (cached) return cached;
+
+  const generation = cacheGeneration;
+  const vocabulary = await getVocabulary();
+  const result = {} as Record<SuggestionGroup, Suggestion[]>;
+  SUGGESTION_GROUPS.forEach(group => {
+    result[group] = rankSuggestions(vocabulary[group], prefix, limit);
+  });
+
+  if (generation === cacheGeneration) resultCache.set(cacheKey, result);
+  return result;
+};
+
+// Vider les caches (après un import ou toute modification des établissements, formations et logements)
+export const clearSuggestionCache = () => {
+  cacheGeneration++;
+  pendingVocabulary = null;
+  vocabularyCache.clear();
+  resultCache.clear();
+};
\ No newline at end of file
@@ -0,0 +1,146 @@
+// src/services/token.service.spec.ts
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { IUser } from '../models/User';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeAllSessions,
+  isSessionActive,
+  getJwtSecret,
+  AccessTokenPayload
+} from './token.service';
+
+// Sessions et utilisateurs gardés en mémoire, avec le sous-ensemble de l'API Mongoose utilisé par le service
+interface FakeSession {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string;
+  revokedAt?: Date;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  save: jest.Mock;
+}
+
+const store = {
+  sessions: [] as FakeSession[],
+  users: new Map<string, { _id: mongoose.Types.ObjectId; role: string; isSuspended: boolean }>()
+};
+
+const matches = (session: FakeSession, filter: Record<string, any>) =>
+  Object.entries(filter).every(([key, expected]) => {
+    const value = (session as any)[key];
+    if (expected && typeof expected === 'object' && '$exists' in expected) {
+      return (value !== undefined) === expected.$exists;
+    }
+    return String(value) === String(expected);
+  });
+
+jest.mock('../models', () => ({
+  Session: {
+    create: jest.fn(async (data: object) => {
+      const session = { _id: new mongoose.Types.ObjectId(), ...data, save: jest.fn() } as FakeSession;
+      store.sessions.push(session);
+      return session;
+    }),
+    findOne: jest.fn(async (filter: Record<string, any>) =>
+      store.sessions.find(session => matches(session, filter)) || null),
+    findById: jest.fn((id: string) => ({
+      select: async () => store.sessions.find(session => String(session._id) === String(id)) || null
+    })),
+    updateOne: jest.fn(async (filter: Record<string, any>, update: object) => {
+      const session = store.sessions.find(candidate => matches(candidate, filter));
+      if (session) Object.assign(session, update);
+      return { modifiedCount: session ? 1 : 0 };
+    }),
+    updateMany: jest.fn(async (filter: Record<string, any>, update: object) => {
+      const sessions = store.sessions.filter(candidate => matches(candidate, filter));
+      sessions.forEach(session => Object.assign(session, update));
+      return { modifiedCount: sessions.length };
+    })
+  },
+  User: {
+    findById: jest.fn(async (id: mongoose.Types.ObjectId) => store.users.get(String(id)) || null)
+  }
+}));
+
+const request = { headers: { 'user-agent': 'jest' }, ip: '127.0.0.1' } as unknown as Request;
+
+const addUser = (fields: { role?: string; isSuspended?: boolean } = {}) => {
+  const user = { _id: new mongoose.Types.ObjectId(), role: 'student', isSuspended: false, ...fields };
+  store.users.set(String(user._id), user);
+  return user as unknown as IUser;
+};
+
+const sessionIdOf = (token: string) => (jwt.verify(token, getJwtSecret()) as AccessTokenPayload).sid;
+
+describe('token.service', () => {
+  beforeEach(() => {
+    store.sessions = [];
+    store.users.clear();
+  });
+
+  it('crée une session active et un access token qui la référence', async () => {
+    const user = addUser();
+    const tokens = await createSession(user, request);
+
+    const payload = jwt.verify(tokens.token, getJwtSecret()) as AccessTokenPayload;
+    expect(payload.id).toBe(String(user._id));
+    expect(await isSessionActive(payload.sid)).toBe(true);
+  });
+
+  it('remplace le refresh token à chaque renouvellement, dans la même session', async () => {
+    const tokens = await createSession(addUser(), request);
+
+    const rotated = await rotateSession(tokens.refreshToken);
+
+    expect(rotated).not.toBeNull();
+    expect(rotated!.refreshToken).not.toBe(tokens.refreshToken);
+    expect(sessionIdOf(rotated!.token)).toBe(sessionIdOf(tokens.token));
+    expect(await rotateSession(rotated!.refreshToken)).not.toBeNull();
+  });
+
+  it('révoque la session quand un refresh token déjà consommé est réutilisé', async () => {
+    const tokens = await createSession(addUser(), request);
+    const rotated = await rotateSession(tokens.refreshToken);
+
+    expect(await rotateSession(tokens.refreshToken)).toBeNull();
+
+    // Le voleur comme l'utilisateur légitime doivent se reconnecter
+    expect(await isSessionActive(sessionIdOf(tokens.token))).toBe(false);
+    expect(await rotateSession(rotated!.refreshToken)).toBeNull();
+  });
+
+  it('refuse le renouvellement pour un compte suspendu', async () => {
+    const tokens = await createSession(addUser({ isSuspended: true }), request);
+
+    expect(await rotateSession(tokens.refreshToken)).toBeNull();
+  });
+
+  it('ne ferme que la session courante à la déconnexion', async () => {
+    const user = addUser();
+    const current = await createSession(user, request);
+    const other = await createSession(user, request);
+
+    await revokeSession(sessionIdOf(current.token));
+
+    expect(await isSessionActive(sessionIdOf(current.token))).toBe(false);
+    expect(await rotateSession(current.refreshToken)).toBeNull();
+    expect(await isSessionActive(sessionIdOf(other.token))).toBe(true);
+  });
+
+  it('ferme toutes les sessions de l\'utilisateur avec la déconnexion globale', async () => {
+    const user = addUser();
+    const sessions = [await createSession(user, request), await createSession(user, request)];
+    const otherUser = await createSession(addUser(), request);
+
+    expect(await revokeAllSessions(String(user._id))).toBe(2);
+    for (const tokens of sessions) {
+      expect(await isSessionActive(sessionIdOf(tokens.token))).toBe(false);
+    }
+    expect(await isSessionActive(sessionIdOf(otherUser.token))).toBe(true);
+  });
+});
\ No newline at end of file
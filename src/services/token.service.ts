@@ -0,0 +1,119 @@
+// src/services/token.service.ts
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Session, User } from '../models';
+import { IUser } from '../models/User';
+
+// Durées de vie : access token court, refresh token long (rotation à chaque usage)
+const getAccessTokenExpire = () => process.env.JWT_EXPIRE || '15m';
+const getRefreshTokenExpireDays = () => Number(process.env.REFRESH_TOKEN_EXPIRE_DAYS) || 30;
+
+export const getJwtSecret = () => process.env.JWT_SECRET || 'votre_secret_jwt';
+
+export interface AccessTokenPayload {
+  id: string;
+  role: string;
+  sid: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export const hashToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Token opaque aléatoire (refresh token, vérification d'email, réinitialisation...)
+export const generateRandomToken = (bytes = 48) => crypto.randomBytes(bytes).toString('hex');
+
+const getRefreshExpiry = () =>
+  new Date(Date.now() + getRefreshTokenExpireDays() * 24 * 60 * 60 * 1000);
+
+const signAccessToken = (payload: AccessTokenPayload) =>
+  jwt.sign(payload, getJwtSecret(), {
+    expiresIn: getAccessTokenExpire() as SignOptions['expiresIn']
+  });
+
+// Créer une nouvelle session (connexion / inscription) et émettre la paire de tokens
+export const createSession = async (user: IUser, req: Request): Promise<AuthTokens> => {
+  const refreshToken = generateRandomToken();
+
+  const session = await Session.create({
+    user: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.headers['user-agent'],
+    ip: req.ip,
+    expiresAt: getRefreshExpiry()
+  });
+
+  return {
+    token: signAccessToken({ id: String(user._id), role: user.role, sid: String(session._id) }),
+    refreshToken,
+    expiresIn: getAccessTokenExpire()
+  };
+};
+
+// Échanger un refresh token contre une nouvelle paire (rotation)
+// Retourne null si le token est inconnu, expiré ou révoqué
+export const rotateSession = async (refreshToken: string): Promise<AuthTokens | null> => {
+  const tokenHash = hashToken(refreshToken);
+  const session = await Session.findOne({ refreshTokenHash: tokenHash });
+
+  if (!session) {
+    // Un token déjà consommé est présenté à nouveau : probable vol, on révoque la session
+    const reused = await Session.findOne({ previousRefreshTokenHash: tokenHash });
+    if (reused && !reused.revokedAt) {
+      reused.revokedAt = new Date();
+      await reused.save();
+    }
+    return null;
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  const user = await User.findById(session.user);
+  if (!user || user.isSuspended) {
+    return null;
+  }
+
+  const newRefreshToken = generateRandomToken();
+  session.previousRefreshTokenHash = tokenHash;
+  session.refreshTokenHash = hashToken(newRefreshToken);
+  session.lastUsedAt = new Date();
+  session.expiresAt = getRefreshExpiry();
+  await session.save();
+
+  return {
+    token: signAccessToken({ id: String(user._id), role: user.role, sid: String(session._id) }),
+    refreshToken: newRefreshToken,
+    expiresIn: getAccessTokenExpire()
+  };
+};
+
+// Révoquer une session précise (déconnexion de l'appareil courant)
+export const revokeSession = async (sessionId: string) => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+// Révoquer toutes les sessions actives d'un utilisateur (déconnexion partout)
+export const revokeAllSessions = async (userId: string) => {
+  const result = await Session.updateMany(
+    { user: userId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
+
+// Vérifier qu'une session est toujours active
+export const isSessionActive = async (sessionId: string) => {
+  const session = await Session.findById(sessionId).select('revokedAt expiresAt');
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+};
\ No newline at end of file
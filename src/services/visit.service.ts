@@ -0,0 +1,122 @@
+// src/services/visit.service.ts
+import { VisitAvailability, VisitRequest } from '../models';
+import { IVisitAvailability, IWeeklySlot } from '../models/VisitAvailability';
+import { IVisitSlot } from '../models/VisitRequest';
+
+// Les heures sont exprimées en heure de Dakar, qui est UTC+0 sans heure d'été :
+// les calculs se font donc directement sur les composantes UTC des dates.
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+export const MAX_SLOT_DAYS = 30;
+
+// Planning appliqué tant que le propriétaire n'a pas défini le sien : du lundi au samedi, 9h-18h
+export const DEFAULT_WEEKLY_SLOTS: IWeeklySlot[] = [1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+  dayOfWeek,
+  startTime: '09:00',
+  endTime: '18:00'
+}));
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const startOfDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const isUnavailableDay = (availability: IVisitAvailability, date: Date) => {
+  const day = startOfDay(date).getTime();
+  return availability.unavailableDates.some(unavailable => startOfDay(unavailable).getTime() === day);
+};
+
+// Disponibilités du propriétaire (non enregistrées : valeurs par défaut du schéma)
+export const getAvailability = async (landlordId: any) =>
+  (await VisitAvailability.findOne({ landlord: landlordId })) ||
+  new VisitAvailability({ landlord: landlordId, weeklySlots: DEFAULT_WEEKLY_SLOTS });
+
+export const buildSlot = (availability: IVisitAvailability, start: Date): IVisitSlot => ({
+  start,
+  end: new Date(start.getTime() + availability.visitDuration * MINUTE_MS)
+});
+
+// Vérifier qu'un créneau respecte le planning du propriétaire
+// Retourne le motif du refus, ou null si le créneau est valide
+export const checkSlotAvailability = (availability: IVisitAvailability, slot: IVisitSlot, now = new Date()) => {
+  if (isNaN(slot.start.getTime())) return 'Date de visite invalide';
+
+  if (slot.start.getTime() < now.getTime() + availability.minNoticeHours * 60 * MINUTE_MS) {
+    return `Les visites doivent être demandées au moins ${availability.minNoticeHours} h à l'avance`;
+  }
+
+  if (isUnavailableDay(availability, slot.start)) {
+    return 'Le propriétaire n\'est pas disponible ce jour-là';
+  }
+
+  const dayStart = startOfDay(slot.start).getTime();
+  const startMinutes = (slot.start.getTime() - dayStart) / MINUTE_MS;
+  const endMinutes = (slot.end.getTime() - dayStart) / MINUTE_MS;
+  const fits = availability.weeklySlots.some(weekly =>
+    weekly.dayOfWeek === slot.start.getUTCDay() &&
+    toMinutes(weekly.startTime) <= startMinutes &&
+    endMinutes <= toMinutes(weekly.endTime)
+  );
+
+  return fits ? null : 'Ce créneau est en dehors des disponibilités du propriétaire';
+};
+
+// Visite confirmée qui chevauche le créneau, pour le propriétaire ou pour l'étudiant
+export const findConflictingVisit = (
+  participants: { landlord: any; student: any },
+  slot: IVisitSlot,
+  excludeId?: any
+) =>
+  VisitRequest.findOne({
+    ...(excludeId && { _id: { $ne: excludeId } }),
+    status: 'confirmed',
+    scheduledStart: { $lt: slot.end },
+    scheduledEnd: { $gt: slot.start },
+    $or: [{ landlord: participants.landlord }, { student: participants.student }]
+  });
+
+// Créneaux encore libres sur `days` jours à partir de `from`, regroupés par jour
+export const listAvailableSlots = async (availability: IVisitAvailability, from: Date, days: number) => {
+  const now = new Date();
+  const rangeStart = startOfDay(from);
+  const rangeEnd = new Date(rangeStart.getTime() + days * DAY_MS);
+
+  const busy = await VisitRequest.find({
+    landlord: availability.landlord,
+    status: 'confirmed',
+    scheduledStart: { $lt: rangeEnd },
+    scheduledEnd: { $gt: rangeStart }
+  }).select('scheduledStart scheduledEnd');
+
+  const step = availability.visitDuration * MINUTE_MS;
+  const result: Array<{ date: string; slots: IVisitSlot[] }> = [];
+
+  for (let dayStart = rangeStart.getTime(); dayStart < rangeEnd.getTime(); dayStart += DAY_MS) {
+    const day = new Date(dayStart);
+    if (isUnavailableDay(availability, day)) continue;
+
+    const slots: IVisitSlot[] = [];
+    availability.weeklySlots
+      .filter(weekly => weekly.dayOfWeek === day.getUTCDay())
+      .sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime))
+      .forEach(weekly => {
+        const windowEnd = dayStart + toMinutes(weekly.endTime) * MINUTE_MS;
+        for (let start = dayStart + toMinutes(weekly.startTime) * MINUTE_MS; start + step <= windowEnd; start += step) {
+          const slot = buildSlot(availability, new Date(start));
+          const isFree = !busy.some(visit =>
+            (visit.scheduledStart as Date) < slot.end && (visit.scheduledEnd as Date) > slot.start
+          );
+          if (isFree && !checkSlotAvailability(availability, slot, now)) slots.push(slot);
+        }
+      });
+
+    if (slots.length > 0) {
+      result.push({ date: day.toISOString().slice(0, 10), slots });
+    }
+  }
+
+  return result;
+};
\ No newline at end of file
@@ -0,0 +1,43 @@
+// src/utils/cache.ts
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface Cache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+  clear: () => void;
+}
+
+// Cache mémoire du processus avec durée de vie et taille bornée
+// (les entrées les plus anciennes sont évincées en premier)
+export const createCache = <T>(options: { ttlMs: number; maxEntries: number }): Cache<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    get: key => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      return entry.value;
+    },
+
+    set: (key, value) => {
+      entries.delete(key);
+      if (entries.size >= options.maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) entries.delete(oldestKey);
+      }
+      entries.set(key, { value, expiresAt: Date.now() + options.ttlMs });
+    },
+
+    clear: () => entries.clear()
+  };
+};
\ No newline at end of file
@@ -0,0 +1,121 @@
+// src/utils/geo.ts
+import { Schema } from 'mongoose';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Point GeoJSON tel que stocké en base (attention : [longitude, latitude])
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+// Filtre "autour d'un point" issu de la query string (?near=lat,lng&radiusKm=)
+export interface NearQuery extends LatLng {
+  radiusKm?: number;
+}
+
+const MAX_RADIUS_KM = 500;
+
+const isValidLatLng = (lat: any, lng: any) =>
+  typeof lat === 'number' && typeof lng === 'number' &&
+  Number.isFinite(lat) && Number.isFinite(lng) &&
+  lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+
+export const toGeoPoint = (coordinates?: Partial<LatLng> | null): GeoPoint | undefined => {
+  if (!coordinates || !isValidLatLng(coordinates.lat, coordinates.lng)) return undefined;
+  return { type: 'Point', coordinates: [coordinates.lng as number, coordinates.lat as number] };
+};
+
+// Position { lat, lng } d'un point GeoJSON enregistré (undefined si absent ou incomplet).
+// Sur un document hydraté, un `geoLocation` non renseigné vaut `{}` : ne pas tester sa seule présence.
+export const fromGeoPoint = (point?: Partial<GeoPoint> | null): LatLng | undefined => {
+  if (!Array.isArray(point?.coordinates) || point.coordinates.length !== 2) return undefined;
+  const [lng, lat] = point.coordinates;
+  return isValidLatLng(lat, lng) ? { lat, lng } : undefined;
+};
+
+// Lire `near=14.69,-17.44` et `radiusKm=5`
+// Retourne undefined si aucun filtre n'est demandé, null si la saisie est invalide
+export const parseNearQuery = (near: any, radiusKm?: any): NearQuery | null | undefined => {
+  if (near === undefined || near === '') return undefined;
+
+  const [lat, lng] = String(near).split(',').map(part => Number(part.trim()));
+  if (!isValidLatLng(lat, lng)) return null;
+
+  const radius = parseRadiusKm(radiusKm);
+  if (radius === null) return null;
+
+  return radius === undefined ? { lat, lng } : { lat, lng, radiusKm: radius };
+};
+
+// Rayon de recherche en km : undefined si absent, null si invalide
+export const parseRadiusKm = (radiusKm: any): number | null | undefined => {
+  if (radiusKm === undefined || radiusKm === '') return undefined;
+
+  const radius = Number(radiusKm);
+  if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS_KM) return null;
+
+  return radius;
+};
+
+export const NEAR_QUERY_ERROR =
+  `Paramètres de proximité invalides. Format: near=lat,lng (ex: 14.6928,-17.4467) et radiusKm entre 0 et ${MAX_RADIUS_KM}`;
+
+export interface TravelEstimate {
+  mode: 'walk' | 'transport';
+  minMinutes: number;
+  maxMinutes: number | null;
+  label: string;
+}
+
+// Tranches de temps de trajet estimées à partir de la distance à vol d'oiseau
+// (le trajet réel est plus long : à pied ~5 km/h, transport urbain ~15 km/h avec attente)
+const TRAVEL_BANDS: Array<{ maxKm: number } & TravelEstimate> = [
+  { maxKm: 1, mode: 'walk', minMinutes: 0, maxMinutes: 15, label: 'Moins de 15 min à pied' },
+  { maxKm: 2, mode: 'walk', minMinutes: 15, maxMinutes: 30, label: '15 à 30 min à pied' },
+  { maxKm: 5, mode: 'transport', minMinutes: 10, maxMinutes: 25, label: '10 à 25 min en transport' },
+  { maxKm: 10, mode: 'transport', minMinutes: 25, maxMinutes: 45, label: '25 à 45 min en transport' },
+  { maxKm: Infinity, mode: 'transport', minMinutes: 45, maxMinutes: null, label: 'Plus de 45 min en transport' }
+];
+
+export const estimateTravel = (km: number): TravelEstimate => {
+  const { maxKm, ...band } = TRAVEL_BANDS.find(candidate => km <= candidate.maxKm)!;
+  return band;
+};
+
+// Plugin Mongoose : ajoute `geoLocation` (GeoJSON, index 2dsphere) calculé à partir de `coordinates`.
+// Les clients continuent d'envoyer `coordinates: { lat, lng }` ; `geoLocation` n'est jamais accepté tel quel.
+export const geoLocationPlugin = (schema: Schema) => {
+  schema.add({
+    geoLocation: {
+      type: { type: String, enum: ['Point'] },
+      coordinates: { type: [Number], default: undefined }
+    }
+  });
+  schema.index({ geoLocation: '2dsphere' });
+
+  schema.pre('validate', function () {
+    this.set('geoLocation', toGeoPoint(this.get('coordinates') as Partial<LatLng> | undefined));
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], function () {
+    const update: any = this.getUpdate();
+    if (!update || Array.isArray(update)) return;
+
+    delete update.geoLocation;
+    if (update.$set) delete update.$set.geoLocation;
+
+    const target = update.$set && 'coordinates' in update.$set ? update.$set : update;
+    if (!('coordinates' in target)) return;
+
+    const point = toGeoPoint(target.coordinates);
+    if (point) {
+      target.geoLocation = point;
+    } else {
+      update.$unset = { ...update.$unset, geoLocation: 1 };
+    }
+  });
+};
\ No newline at end of file
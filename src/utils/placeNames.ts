@@ -0,0 +1,96 @@
+// src/utils/placeNames.ts
+import { normalizeForSearch, editDistance } from './text';
+
+// Villes et quartiers les plus recherchés par les étudiants
+export const SENEGAL_PLACE_NAMES = [
+  // Villes
+  'Dakar', 'Thiès', 'Saint-Louis', 'Ziguinchor', 'Kaolack', 'Touba', 'Mbour', 'Diourbel',
+  'Louga', 'Tambacounda', 'Kolda', 'Matam', 'Fatick', 'Kaffrine', 'Kédougou', 'Sédhiou',
+  'Rufisque', 'Pikine', 'Guédiawaye', 'Bambey', 'Tivaouane', 'Richard-Toll', 'Podor',
+  // Quartiers de Dakar et de la banlieue
+  'Plateau', 'Médina', 'Fann', 'Point E', 'Mermoz', 'Sacré-Cœur', 'Ouakam', 'Yoff', 'Ngor',
+  'Almadies', 'Liberté', 'Grand Yoff', 'Parcelles Assainies', 'Sicap', 'HLM', 'Hann',
+  'Grand Dakar', 'Colobane', 'Keur Massar', 'Yeumbeul', 'Mbao', 'Diamniadio', 'Sangalkam'
+];
+
+// Graphies courantes qui ne sont pas des fautes de frappe
+const PLACE_ALIASES: Record<string, string> = {
+  'st louis': 'Saint-Louis',
+  'ndar': 'Saint-Louis',
+  'tamba': 'Tambacounda',
+  'parcelles': 'Parcelles Assainies',
+  'sicap liberte': 'Liberté',
+  'mermoz sacre coeur': 'Sacré-Cœur'
+};
+
+const NORMALIZED_PLACES = SENEGAL_PLACE_NAMES.map(name => ({
+  name,
+  key: normalizeForSearch(name)
+}));
+
+// Tolérance selon la longueur du mot : pas de correction en dessous de 4 lettres
+const maxDistanceFor = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+const findPlace = (candidate: string) => {
+  if (PLACE_ALIASES[candidate]) return PLACE_ALIASES[candidate];
+
+  const exact = NORMALIZED_PLACES.find(place => place.key === candidate);
+  if (exact) return exact.name;
+
+  const maxDistance = maxDistanceFor(candidate.length);
+  if (maxDistance === 0) return null;
+
+  let best: { name: string; distance: number } | null = null;
+  let ambiguous = false;
+
+  for (const place of NORMALIZED_PLACES) {
+    if (Math.abs(place.key.length - candidate.length) > maxDistance) continue;
+    const distance = editDistance(candidate, place.key);
+    if (distance > maxDistance) continue;
+
+    if (!best || distance < best.distance) {
+      best = { name: place.name, distance };
+      ambiguous = false;
+    } else if (distance === best.distance) {
+      ambiguous = true;
+    }
+  }
+
+  return best && !ambiguous ? best.name : null;
+};
+
+export interface PlaceCorrection {
+  from: string;
+  to: string;
+}
+
+// Corriger les noms de lieux mal orthographiés dans une recherche ("Zinguinchor" -> "Ziguinchor").
+// Les noms composés ("Grand Yoff", "Point E") sont testés avant les mots isolés.
+export const correctPlaceNames = (query: string) => {
+  const words = query.split(/\s+/).filter(Boolean);
+  const output: string[] = [];
+  const corrections: PlaceCorrection[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    if (i + 1 < words.length) {
+      const pair = `${words[i]} ${words[i + 1]}`;
+      const place = findPlace(normalizeForSearch(pair));
+      if (place) {
+        if (normalizeForSearch(place) !== normalizeForSearch(pair)) corrections.push({ from: pair, to: place });
+        output.push(place);
+        i++;
+        continue;
+      }
+    }
+
+    const place = findPlace(normalizeForSearch(words[i]));
+    if (place && normalizeForSearch(place) !== normalizeForSearch(words[i])) {
+      corrections.push({ from: words[i], to: place });
+      output.push(place);
+    } else {
+      output.push(words[i]);
+    }
+  }
+
+  return { text: output.join(' '), corrections };
+};
\ No newline at end of file
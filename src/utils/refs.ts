@@ -0,0 +1,6 @@
+// src/utils/refs.ts
+import { Document } from 'mongoose';
+
+// Identifiant enregistré d'une référence, qu'elle ait été peuplée ou non
+// (une référence peuplée vaut null une fois le document cible supprimé, ex: compte supprimé)
+export const refId = (doc: Document, path: string) => String(doc.populated(path) ?? doc.get(path));
\ No newline at end of file
@@ -0,0 +1,15 @@
+// src/utils/scheduler.ts
+import mongoose from 'mongoose';
+
+// Exécuter une tâche de fond à intervalle régulier, la première fois dès que la base est disponible
+// Les erreurs sont journalisées sans arrêter les exécutions suivantes
+export const runPeriodically = (label: string, task: () => Promise<unknown>, intervalMs: number) => {
+  const run = () => {
+    task().catch(error => console.error(`Erreur ${label}:`, error));
+  };
+
+  if (mongoose.connection.readyState === 1) run();
+  else mongoose.connection.once('open', run);
+
+  return setInterval(run, intervalMs);
+};
\ No newline at end of file
@@ -0,0 +1,64 @@
+// src/utils/text.ts
+
+// Échapper les caractères spéciaux d'une saisie utilisateur avant de l'utiliser dans un $regex
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ACCENT_CLASSES: Record<string, string> = {
+  a: '[aàâäAÀÂÄ]',
+  c: '[cçCÇ]',
+  e: '[eéèêëEÉÈÊË]',
+  i: '[iîïIÎÏ]',
+  o: '[oôöOÔÖ]',
+  u: '[uùûüUÙÛÜ]',
+  y: '[yÿYŸ]'
+};
+
+// Retirer les accents d'une chaîne ("Thiès" -> "Thies")
+export const stripAccents = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Motif regex insensible aux accents : "thies" trouve aussi "Thiès"
+export const accentInsensitivePattern = (value: string) =>
+  stripAccents(value)
+    .split('')
+    .map(char => ACCENT_CLASSES[char.toLowerCase()] || escapeRegex(char))
+    .join('');
+
+// Forme de comparaison : minuscules, sans accents, tirets/apostrophes remplacés par des espaces
+export const normalizeForSearch = (value: string) =>
+  stripAccents(value)
+    .toLowerCase()
+    .replace(/œ/g, 'oe')
+    .replace(/['’\-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Distance d'édition (insertion, suppression, substitution, transposition de deux lettres)
+export const editDistance = (a: string, b: string) => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...Array(cols - 1).fill(0)]);
+  for (let j = 1; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
\ No newline at end of file